@@ -0,0 +1,76 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+/**
+ * Compares the work done by `updatePreview` for a single keystroke on a large
+ * project: building the modules map and the payload sent to the bundler, with a
+ * full `compile` against a `patch` with only the edited module.
+ *
+ * Run with `yarn benchmark` (builds the package first)
+ */
+const { performance } = require("perf_hooks");
+
+const { createModules, getModulesPatch } = require("../dist/cjs/utils");
+
+const FILES_COUNT = 200;
+const ITERATIONS = 200;
+
+const files = {};
+for (let index = 0; index < FILES_COUNT; index++) {
+  files[`/src/component-${index}.js`] = {
+    code: `export const Component${index} = () => "${"x".repeat(2000)}";`,
+  };
+}
+
+// `updatePreview` before incremental compiles, spreading in the reduce
+const createModulesWithSpread = (files) =>
+  Object.keys(files).reduce(
+    (prev, next) => ({
+      ...prev,
+      [next]: { code: files[next].code, path: next },
+    }),
+    {}
+  );
+
+// Structured clone is what `postMessage` does with the message, JSON is the fallback on older Node versions
+const clone =
+  typeof structuredClone === "function"
+    ? structuredClone
+    : (value) => JSON.parse(JSON.stringify(value));
+
+const measure = (name, run) => {
+  const start = performance.now();
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    run(iteration);
+  }
+  const average = (performance.now() - start) / ITERATIONS;
+
+  console.log(`${name.padEnd(40)} ${average.toFixed(3)}ms`);
+};
+
+const previousModules = createModules(files);
+const editFile = (iteration) => ({
+  ...files,
+  "/src/component-0.js": { code: `export default ${iteration};` },
+});
+
+console.log(`${FILES_COUNT} files, average of ${ITERATIONS} runs\n`);
+
+measure("modules map (spread in reduce)", () => createModulesWithSpread(files));
+measure("modules map (createModules)", () => createModules(files));
+
+measure("full compile (build + clone)", (iteration) =>
+  clone({ type: "compile", modules: createModules(editFile(iteration)) })
+);
+measure("patch (build + diff + clone)", (iteration) =>
+  clone({
+    type: "patch",
+    ...getModulesPatch(previousModules, createModules(editFile(iteration))),
+  })
+);
+
+const fullSize = JSON.stringify(createModules(editFile(0))).length;
+const patchSize = JSON.stringify(
+  getModulesPatch(previousModules, createModules(editFile(0)))
+).length;
+
+console.log(`\nfull compile payload: ${(fullSize / 1024).toFixed(1)}kB`);
+console.log(`patch payload: ${(patchSize / 1024).toFixed(1)}kB`);
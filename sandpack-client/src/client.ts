@@ -1,8 +1,15 @@
 import { getTemplate } from "codesandbox-import-utils/lib/create-sandbox/templates";
 import isEqual from "lodash.isequal";
 
+import {
+  getEnvironmentVariables,
+  removeSecretEnvironmentVariables,
+} from "./environment-variables";
 import Protocol from "./file-resolver-protocol";
 import { IFrameProtocol } from "./iframe-protocol";
+import { getAllowAttribute, getSandboxAttribute } from "./iframe-sandbox";
+import { validatePackageJSON } from "./package-json";
+import { createRecording } from "./recorder";
 import type {
   Dependencies,
   SandpackBundlerFiles,
@@ -13,11 +20,23 @@ import type {
   SandpackMessage,
   ListenerFunction,
   SandpackError,
+  SandpackCompileMetrics,
+  SandpackIframeSandboxToken,
+  SandpackEnvironmentVariables,
+  SandpackMessageOfType,
+  SandpackRecordedMessage,
+  SandpackRecording,
+  CompileOptions,
+  FileResolver,
+  FileResolverMethod,
+  FileResolverRequest,
 } from "./types";
 import {
-  createPackageJSON,
+  createModules,
   addPackageJSONIfNeeded,
   extractErrorDetails,
+  getCodeSandboxFileContent,
+  getModulesPatch,
 } from "./utils";
 
 export interface ClientOptions {
@@ -29,6 +48,11 @@ export interface ClientOptions {
    * Location of the bundler.
    */
   bundlerURL?: string;
+  /**
+   * Extra origins allowed to message this client, the origin of `bundlerURL` is always trusted.
+   * Messages coming from any other origin are dropped.
+   */
+  trustedOrigins?: string[];
   /**
    * Relative path that the iframe loads (eg: /about)
    */
@@ -62,10 +86,64 @@ export interface ClientOptions {
    * You can pass a custom file resolver that is responsible for resolving files.
    * We will use this to get all files from the file system.
    */
-  fileResolver?: {
-    isFile: (path: string) => Promise<boolean>;
-    readFile: (path: string) => Promise<string>;
-  };
+  fileResolver?: FileResolver;
+
+  /**
+   * Tokens of the `sandbox` attribute of the iframe, they replace the default ones:
+   * `allow-forms allow-modals allow-popups allow-presentation allow-same-origin allow-scripts`.
+   * The bundler doesn't run without `allow-scripts` and `allow-same-origin`
+   */
+  sandbox?: SandpackIframeSandboxToken[];
+
+  /**
+   * Features of the permissions policy that the iframe can use, set as its `allow` attribute,
+   * eg: `["clipboard-write", "camera 'self'"]`
+   */
+  allow?: string[];
+
+  /**
+   * How many compilations are kept in `compileMetrics`, 50 by default
+   */
+  compileMetricsLimit?: number;
+
+  /**
+   * Variables of `process.env` and `import.meta.env`, on top of the ones of the
+   * `/.env` and `/.env.local` files. `{ value, secret: true }` keeps a value out
+   * of `getCodeSandboxURL`
+   */
+  environmentVariables?: SandpackEnvironmentVariables;
+}
+
+export interface RequestOptions {
+  /**
+   * Time in milliseconds to wait for the reply, the request never times out when set to 0
+   */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface ReplayOptions {
+  /**
+   * Multiplies the pace of the recording, eg: 2 replays it twice as fast
+   */
+  speed?: number;
+  /**
+   * Delivers the incoming messages to the listeners, instead of sending the
+   * outgoing ones to the bundler
+   */
+  replayIncoming?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ReloadOptions {
+  /**
+   * Bundler to load instead of the current one
+   */
+  bundlerURL?: string;
+  /**
+   * Files sent to the bundler once it's initialized, the last ones by default
+   */
+  sandboxInfo?: SandboxInfo;
 }
 
 export interface SandboxInfo {
@@ -87,7 +165,7 @@ export interface SandboxInfo {
   disableDependencyPreprocessing?: boolean;
 }
 
-const BUNDLER_URL =
+export const BUNDLER_URL =
   process.env.CODESANDBOX_ENV === "development"
     ? "http://localhost:3000/"
     : `https://${process.env.PACKAGE_VERSION?.replace(
@@ -95,6 +173,44 @@ const BUNDLER_URL =
         "-"
       )}-sandpack.codesandbox.io/`;
 
+const REQUEST_TIMEOUT = 10000; // 10 seconds for the bundler to reply to a request
+const COMPILE_METRICS_LIMIT = 50;
+
+const getTrustedOrigins = (
+  bundlerURL: string,
+  options: ClientOptions
+): string[] =>
+  [bundlerURL, ...(options.trustedOrigins || [])].map(
+    (url) => new URL(url).origin
+  );
+
+const wait = (duration: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("The replay was aborted"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutHook);
+      reject(new Error("The replay was aborted"));
+    };
+    const timeoutHook = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, duration);
+
+    signal?.addEventListener("abort", onAbort);
+  });
+
+const COMPILE_PHASES: Partial<
+  Record<ClientStatus, "dependencyInstall" | "transpile" | "evaluate">
+> = {
+  "installing-dependencies": "dependencyInstall",
+  transpiling: "transpile",
+  evaluating: "evaluate",
+};
+
 export class SandpackClient {
   selector: string | undefined;
   element: Element;
@@ -104,15 +220,35 @@ export class SandpackClient {
 
   fileResolverProtocol?: Protocol;
   bundlerURL: string;
+  trustedOrigins: string[];
   bundlerState?: BundlerState;
   errors: SandpackError[];
   status: ClientStatus;
+  compileMetrics: SandpackCompileMetrics[];
+  // Messages recorded since `startRecording`, kept once it's stopped so they can be exported
+  recording: SandpackRecording | null = null;
 
   sandboxInfo: SandboxInfo;
 
   unsubscribeGlobalListener: UnsubscribeFunction;
   unsubscribeChannelListener: UnsubscribeFunction;
 
+  // Whether the bundler announced it can apply a `patch` instead of a full `compile`
+  private supportsPatch = false;
+  // Last state sent to the bundler, so the following compiles only send what changed
+  private lastCompile?: { modules: Modules; options: CompileOptions };
+
+  // Requests waiting for a reply, rejected when the client is cleaned up
+  private pendingRequests: Record<number, (error: Error) => void> = {};
+  private requestCount = 0;
+
+  // Compilation in progress, its timings are completed as the status of the bundler changes
+  private currentCompile?: {
+    metrics: SandpackCompileMetrics;
+    status?: ClientStatus;
+    statusStartTime: number;
+  };
+
   constructor(
     selector: string | HTMLIFrameElement,
     sandboxInfo: SandboxInfo,
@@ -121,10 +257,12 @@ export class SandpackClient {
     this.options = options;
     this.sandboxInfo = sandboxInfo;
     this.bundlerURL = options.bundlerURL || BUNDLER_URL;
+    this.trustedOrigins = getTrustedOrigins(this.bundlerURL, options);
 
     this.bundlerState = undefined;
     this.errors = [];
     this.status = "initializing";
+    this.compileMetrics = [];
 
     if (typeof selector === "string") {
       this.selector = selector;
@@ -141,38 +279,47 @@ export class SandpackClient {
       this.element = selector;
       this.iframe = selector;
     }
-    if (!this.iframe.getAttribute("sandbox")) {
-      this.iframe.setAttribute(
-        "sandbox",
-        "allow-forms allow-modals allow-popups allow-presentation allow-same-origin allow-scripts"
-      );
+    // An iframe passed with its own sandbox is kept as it is, unless the tokens are set explicitly
+    if (options.sandbox || !this.iframe.getAttribute("sandbox")) {
+      this.iframe.setAttribute("sandbox", getSandboxAttribute(options.sandbox));
     }
 
-    this.iframe.src = options.startRoute
-      ? new URL(options.startRoute, this.bundlerURL).toString()
-      : this.bundlerURL;
-    this.iframeProtocol = new IFrameProtocol(this.iframe, this.bundlerURL);
+    // The permissions policy is read when the iframe navigates, so it has to be set before the src
+    if (options.allow) {
+      this.iframe.setAttribute("allow", getAllowAttribute(options.allow));
+    }
+
+    this.iframe.src = this.getIframeSrc();
+    this.iframeProtocol = new IFrameProtocol(
+      this.iframe,
+      this.bundlerURL,
+      this.trustedOrigins
+    );
 
     this.unsubscribeGlobalListener = this.iframeProtocol.globalListen(
-      (mes: SandpackMessage) => {
-        if (mes.type !== "initialized" || !this.iframe.contentWindow) {
+      (mes: SandpackMessage, source) => {
+        // Every bundler of the page broadcasts its `initialized`, only the one of this iframe registers it
+        if (
+          mes.type !== "initialized" ||
+          !this.iframe.contentWindow ||
+          source !== this.iframe.contentWindow
+        ) {
           return;
         }
 
         this.iframeProtocol.register();
+        this.supportsPatch = Boolean(mes.supportsPatch);
 
         if (this.options.fileResolver) {
+          // The bundler was reloaded, the previous window is gone
+          this.fileResolverProtocol?.dispose();
+
           // TODO: Find a common place for the Protocol to be implemented for both sandpack-core and sandpack-client
           this.fileResolverProtocol = new Protocol(
             "file-resolver",
-            async (data: { m: "isFile" | "readFile"; p: string }) => {
-              if (data.m === "isFile") {
-                return this.options.fileResolver!.isFile(data.p);
-              }
-
-              return this.options.fileResolver!.readFile(data.p);
-            },
-            this.iframe.contentWindow
+            this.handleFileResolverRequest,
+            this.iframe.contentWindow,
+            this.trustedOrigins
           );
         }
 
@@ -185,15 +332,26 @@ export class SandpackClient {
         switch (mes.type) {
           case "start": {
             this.errors = [];
+            this.startCompileMetrics(Boolean(mes.firstLoad));
             break;
           }
           case "status": {
             this.status = mes.status;
+            this.trackCompileStatus(mes.status);
+            break;
+          }
+          case "done": {
+            this.finishCompileMetrics(mes.compilatonError);
             break;
           }
           case "action": {
             if (mes.action === "show-error") {
-              this.errors = [...this.errors, extractErrorDetails(mes)];
+              const error = extractErrorDetails(mes);
+
+              // The bundler can report the same error more than once for a single compile
+              if (!this.errors.some(({ id }) => id === error.id)) {
+                this.errors = [...this.errors, error];
+              }
             }
             break;
           }
@@ -201,17 +359,60 @@ export class SandpackClient {
             this.bundlerState = mes.state;
             break;
           }
+          case "patch-unsupported": {
+            // The bundler could not apply the last patch, fall back to full compiles
+            this.supportsPatch = false;
+            this.updatePreview();
+            break;
+          }
         }
       }
     );
   }
 
   cleanup(): void {
+    Object.values(this.pendingRequests).forEach((reject) =>
+      reject(new Error("The client was cleaned up before the bundler replied"))
+    );
+    this.pendingRequests = {};
+
     this.unsubscribeChannelListener();
     this.unsubscribeGlobalListener();
+    this.fileResolverProtocol?.dispose();
     this.iframeProtocol.cleanup();
   }
 
+  /**
+   * Loads the bundler in the iframe again, or another bundler when `bundlerURL`
+   * is set. The listeners of the client are kept, so this is how a bundler that
+   * doesn't respond is retried
+   */
+  reload({ bundlerURL, sandboxInfo }: ReloadOptions = {}): void {
+    Object.values(this.pendingRequests).forEach((reject) =>
+      reject(new Error("The bundler was reloaded before it replied"))
+    );
+    this.pendingRequests = {};
+
+    if (bundlerURL) {
+      this.bundlerURL = bundlerURL;
+      this.trustedOrigins = getTrustedOrigins(bundlerURL, this.options);
+    }
+    if (sandboxInfo) {
+      this.sandboxInfo = sandboxInfo;
+    }
+
+    this.iframeProtocol.setOrigin(this.bundlerURL, this.trustedOrigins);
+    this.bundlerState = undefined;
+    this.errors = [];
+    this.status = "initializing";
+    this.currentCompile = undefined;
+    this.supportsPatch = false;
+    this.lastCompile = undefined;
+
+    // The initialization compile is sent once the new bundler is initialized
+    this.iframe.src = this.getIframeSrc();
+  }
+
   updateOptions(options: ClientOptions): void {
     if (!isEqual(this.options, options)) {
       this.options = options;
@@ -227,52 +428,49 @@ export class SandpackClient {
 
     const files = this.getFiles();
 
-    const modules: Modules = Object.keys(files).reduce(
-      (prev, next) => ({
-        ...prev,
-        [next]: {
-          code: files[next].code,
-          path: next,
-        },
-      }),
-      {}
-    );
+    const modules = createModules(files);
+
+    // A broken manifest would be compiled with the wrong dependencies or entry, so nothing
+    // is sent to the bundler and the error is reported like the ones coming from the bundler.
+    // A missing "main" is a notification instead of an error: the sandbox still runs (the
+    // bundler falls back to the entry of the template), and an error would cover the preview
+    const packageJSONError = validatePackageJSON(files["/package.json"].code);
+    if (packageJSONError?.severity === "warning") {
+      this.iframeProtocol.notify({
+        type: "action",
+        action: "notification",
+        notificationType: "warning",
+        title: packageJSONError.title,
+        message: packageJSONError.message,
+      });
+    } else if (packageJSONError) {
+      this.iframeProtocol.notify({
+        type: "action",
+        action: "show-error",
+        ...packageJSONError,
+      });
 
-    let packageJSON = JSON.parse(
-      createPackageJSON(
-        this.sandboxInfo.dependencies,
-        this.sandboxInfo.devDependencies,
-        this.sandboxInfo.entry
-      )
-    );
-    try {
-      packageJSON = JSON.parse(files["/package.json"].code);
-    } catch (e) {
-      console.error(
-        "Could not parse package.json file: " + (e as Error).message
-      );
+      return;
     }
 
+    const packageJSON = JSON.parse(files["/package.json"].code);
+
     // TODO move this to a common format
     const normalizedModules = Object.keys(files).reduce(
-      (prev, next) => ({
-        ...prev,
-        [next]: {
-          content: files[next].code,
-          path: next,
-        },
-      }),
+      (acc: Record<string, { content: string; isBinary: boolean }>, path) => {
+        acc[path] = {
+          content: files[path].code,
+          isBinary: Boolean(files[path].isBinary),
+        };
+        return acc;
+      },
       {}
     );
 
-    this.dispatch({
-      type: "compile",
-      codesandbox: true,
-      version: 3,
-      isInitializationCompile,
-      modules,
+    const compileOptions: CompileOptions = {
       externalResources: this.options.externalResources || [],
       hasFileResolver: Boolean(this.options.fileResolver),
+      fileResolverMethods: this.getFileResolverMethods(),
       disableDependencyPreprocessing:
         this.sandboxInfo.disableDependencyPreprocessing,
       template:
@@ -283,6 +481,41 @@ export class SandpackClient {
       showLoadingScreen: this.options.showLoadingScreen ?? true,
       skipEval: this.options.skipEval || false,
       clearConsoleDisabled: !this.options.clearConsoleOnFirstCompile,
+      environmentVariables: getEnvironmentVariables(
+        files,
+        this.options.environmentVariables
+      ),
+    };
+
+    const lastCompile = this.lastCompile;
+    this.lastCompile = { modules, options: compileOptions };
+
+    // Only the modules changed since the last compile are sent, as long as nothing else
+    // changed: a new package.json means new dependencies, which needs a full compile
+    if (
+      this.supportsPatch &&
+      !isInitializationCompile &&
+      lastCompile &&
+      isEqual(lastCompile.options, compileOptions) &&
+      lastCompile.modules["/package.json"]?.code ===
+        modules["/package.json"]?.code
+    ) {
+      this.dispatch({
+        type: "patch",
+        codesandbox: true,
+        ...getModulesPatch(lastCompile.modules, modules),
+      });
+
+      return;
+    }
+
+    this.dispatch({
+      type: "compile",
+      codesandbox: true,
+      version: 3,
+      isInitializationCompile,
+      modules,
+      ...compileOptions,
     });
   }
 
@@ -302,15 +535,16 @@ export class SandpackClient {
     editorUrl: string;
     embedUrl: string;
   }> {
-    const files = this.getFiles();
+    // Secrets stay in the sandbox, the exported one gets the public variables only
+    const files = removeSecretEnvironmentVariables(
+      this.getFiles(),
+      this.options.environmentVariables
+    );
 
     const paramFiles = Object.keys(files).reduce(
       (prev, next) => ({
         ...prev,
-        [next.replace("/", "")]: {
-          content: files[next].code,
-          isBinary: false,
-        },
+        [next.replace("/", "")]: getCodeSandboxFileContent(files[next]),
       }),
       {}
     );
@@ -331,20 +565,280 @@ export class SandpackClient {
       }));
   }
 
-  public getTranspilerContext = (): Promise<
-    Record<string, Record<string, unknown>>
-  > =>
-    new Promise((resolve) => {
-      const unsubscribe = this.listen((message) => {
-        if (message.type === "transpiler-context") {
-          resolve(message.data);
+  /**
+   * Dispatch a message and wait for the bundler to reply with a message of `responseType`
+   * that echoes its `$requestId`
+   */
+  public request<
+    TRequest extends SandpackMessage,
+    TResponse extends SandpackMessage
+  >(
+    message: TRequest,
+    responseType: TResponse["type"],
+    { timeout = REQUEST_TIMEOUT, signal }: RequestOptions = {}
+  ): Promise<TResponse> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`Request '${message.type}' was aborted`));
+        return;
+      }
 
-          unsubscribe();
+      const requestId = ++this.requestCount;
+      let timeoutHook: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = () => {
+        unsubscribe();
+        if (timeoutHook) {
+          clearTimeout(timeoutHook);
         }
+        signal?.removeEventListener("abort", onAbort);
+        delete this.pendingRequests[requestId];
+      };
+
+      const fail = (error: Error) => {
+        settle();
+        reject(error);
+      };
+
+      const onAbort = () =>
+        fail(new Error(`Request '${message.type}' was aborted`));
+
+      const unsubscribe = this.listen((reply) => {
+        if (reply.type !== responseType || reply.$requestId !== requestId) {
+          return;
+        }
+
+        if (reply.$error) {
+          fail(new Error(reply.$error));
+          return;
+        }
+
+        settle();
+        resolve(reply as TResponse);
       });
 
-      this.dispatch({ type: "get-transpiler-context" });
+      if (timeout > 0) {
+        timeoutHook = setTimeout(
+          () =>
+            fail(
+              new Error(
+                `Request '${message.type}' timed out after ${timeout}ms`
+              )
+            ),
+          timeout
+        );
+      }
+
+      signal?.addEventListener("abort", onAbort);
+      this.pendingRequests[requestId] = fail;
+
+      this.dispatch({ ...message, $requestId: requestId });
+    });
+  }
+
+  /**
+   * Waits for the bundler as long as it takes, unless a `timeout` is given
+   */
+  public getTranspilerContext = (
+    options?: RequestOptions
+  ): Promise<Record<string, Record<string, unknown>>> =>
+    this.request<
+      SandpackMessageOfType<"get-transpiler-context">,
+      SandpackMessageOfType<"transpiler-context">
+    >({ type: "get-transpiler-context" }, "transpiler-context", {
+      timeout: 0,
+      ...options,
+    }).then((reply) => reply.data);
+
+  /**
+   * Run all test files of the sandbox, or only the one at `path`.
+   * Results are reported to the listeners through `test` messages
+   */
+  public runTests(path?: string): void {
+    this.dispatch({ type: "run-tests", path });
+  }
+
+  public startRecording(
+    onMessage?: (entry: SandpackRecordedMessage) => void
+  ): void {
+    const recording = createRecording();
+    this.recording = recording;
+
+    this.iframeProtocol.setRecorder((direction, message) => {
+      const entry = {
+        id: recording.messages.length,
+        timestamp: Date.now(),
+        direction,
+        message,
+      };
+
+      recording.messages.push(entry);
+      onMessage?.(entry);
     });
+  }
+
+  public stopRecording(): SandpackRecording | null {
+    this.iframeProtocol.setRecorder(null);
+
+    return this.recording;
+  }
+
+  /**
+   * Sends the messages of a recording again, keeping the time between them
+   */
+  public async replayRecording(
+    recording: SandpackRecording,
+    { speed = 1, replayIncoming = false, signal }: ReplayOptions = {}
+  ): Promise<void> {
+    const direction = replayIncoming ? "incoming" : "outgoing";
+    let previousTimestamp = recording.startTime;
+
+    for (const entry of recording.messages) {
+      if (entry.direction !== direction) {
+        continue;
+      }
+
+      await wait((entry.timestamp - previousTimestamp) / speed, signal);
+      previousTimestamp = entry.timestamp;
+
+      if (replayIncoming) {
+        this.iframeProtocol.notify(entry.message);
+      } else {
+        this.dispatch(entry.message);
+      }
+    }
+  }
+
+  private startCompileMetrics(firstLoad: boolean): void {
+    const now = Date.now();
+
+    this.currentCompile = {
+      metrics: {
+        startTime: now,
+        dependencyInstall: 0,
+        transpile: 0,
+        evaluate: 0,
+        total: 0,
+        transpiledModules: 0,
+        firstLoad,
+        compilationError: false,
+      },
+      statusStartTime: now,
+    };
+  }
+
+  private trackCompileStatus(status?: ClientStatus): void {
+    if (!this.currentCompile) {
+      return;
+    }
+
+    const now = Date.now();
+    const phase =
+      this.currentCompile.status && COMPILE_PHASES[this.currentCompile.status];
+    if (phase) {
+      this.currentCompile.metrics[phase] +=
+        now - this.currentCompile.statusStartTime;
+    }
+
+    this.currentCompile.status = status;
+    this.currentCompile.statusStartTime = now;
+  }
+
+  private finishCompileMetrics(compilationError: boolean): void {
+    if (!this.currentCompile) {
+      return;
+    }
+
+    this.trackCompileStatus();
+
+    const { metrics } = this.currentCompile;
+    this.currentCompile = undefined;
+
+    const transpiledModules = Object.values(
+      this.bundlerState?.transpiledModules ?? {}
+    ).filter((tModule) => tModule.source).length;
+
+    const compileMetrics: SandpackCompileMetrics = {
+      ...metrics,
+      total: Date.now() - metrics.startTime,
+      transpiledModules,
+      compilationError,
+    };
+
+    const limit = this.options.compileMetricsLimit ?? COMPILE_METRICS_LIMIT;
+    this.compileMetrics = [...this.compileMetrics, compileMetrics].slice(
+      -limit
+    );
+
+    this.iframeProtocol.notify({
+      type: "compile-metrics",
+      metrics: compileMetrics,
+      history: this.compileMetrics,
+    });
+  }
+
+  private getIframeSrc(): string {
+    return this.options.startRoute
+      ? new URL(this.options.startRoute, this.bundlerURL).toString()
+      : this.bundlerURL;
+  }
+
+  private getFileResolverMethods(): FileResolverMethod[] | undefined {
+    const { fileResolver } = this.options;
+    if (!fileResolver) {
+      return undefined;
+    }
+
+    const optionalMethods: FileResolverMethod[] = [
+      "readdir",
+      "stat",
+      "writeFile",
+    ];
+
+    return [
+      "isFile",
+      "readFile",
+      ...optionalMethods.filter((method) => Boolean(fileResolver[method])),
+    ];
+  }
+
+  private handleFileResolverRequest = async (
+    data: FileResolverRequest
+  ): Promise<unknown> => {
+    const fileResolver = this.options.fileResolver!;
+
+    switch (data.m) {
+      case "isFile":
+        return fileResolver.isFile(data.p);
+      case "readFile":
+        return fileResolver.readFile(data.p);
+      case "readdir":
+        return fileResolver.readdir?.(data.p) ?? null;
+      case "stat":
+        return fileResolver.stat?.(data.p) ?? null;
+      case "writeFile": {
+        if (!fileResolver.writeFile) {
+          return null;
+        }
+
+        const exists = await fileResolver.isFile(data.p);
+        await fileResolver.writeFile(data.p, data.c);
+
+        // Let the host know about files written by the bundler, unless it hears about them through `watch`
+        if (fileResolver.watch) {
+          return null;
+        }
+
+        this.iframeProtocol.notify({
+          type: "fs-change",
+          event: exists ? "update" : "create",
+          path: data.p,
+        });
+
+        return null;
+      }
+    }
+  };
 
   private getFiles() {
     const { sandboxInfo } = this;
@@ -0,0 +1,144 @@
+import type {
+  SandpackBundlerFiles,
+  SandpackEnvironmentVariables,
+} from "./types";
+
+const ENV_FILE_PATH = "/.env";
+// Meant for the values of a single machine, so it's never exported
+const LOCAL_ENV_FILE_PATH = "/.env.local";
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const parseEnvValue = (value: string): string => {
+  const quote = value[0];
+  const end = value.lastIndexOf(quote);
+
+  if ((quote === '"' || quote === "'" || quote === "`") && end > 0) {
+    const content = value.slice(1, end);
+
+    // Double quotes are the only ones with escape sequences, as written by `JSON.stringify`
+    return quote === '"'
+      ? content.replace(/\\([n"\\])/g, (_, char) =>
+          char === "n" ? "\n" : char
+        )
+      : content;
+  }
+
+  // Comments can follow an unquoted value, after a space
+  return value.replace(/\s+#.*$/, "").trim();
+};
+
+/**
+ * Reads the variables of a `.env` file, one `NAME=value` per line. Empty lines,
+ * comments and lines that don't assign a valid name are skipped
+ */
+export function parseEnvFile(code: string): Record<string, string> {
+  return code.split(/\r?\n/).reduce((acc: Record<string, string>, line) => {
+    const match = line
+      .trim()
+      .replace(/^export\s+/, "")
+      .match(/^([^=\s]+)\s*=\s*(.*)$/);
+
+    if (match && VARIABLE_NAME.test(match[1])) {
+      acc[match[1]] = parseEnvValue(match[2]);
+    }
+
+    return acc;
+  }, {});
+}
+
+const readEnvFile = (
+  files: SandpackBundlerFiles,
+  path: string
+): Record<string, string> => {
+  const file = files[path];
+
+  return file && !file.isBinary ? parseEnvFile(file.code) : {};
+};
+
+/**
+ * Values sent to the bundler: the ones of `/.env`, then `/.env.local` and the
+ * variables of the options, each one overriding the previous ones
+ */
+export function getEnvironmentVariables(
+  files: SandpackBundlerFiles,
+  variables: SandpackEnvironmentVariables = {}
+): Record<string, string> {
+  return Object.keys(variables).reduce(
+    (acc: Record<string, string>, name) => {
+      const variable = variables[name];
+      acc[name] = typeof variable === "string" ? variable : variable.value;
+
+      return acc;
+    },
+    {
+      ...readEnvFile(files, ENV_FILE_PATH),
+      ...readEnvFile(files, LOCAL_ENV_FILE_PATH),
+    }
+  );
+}
+
+/**
+ * Files to share outside of the sandbox: `/.env.local` is removed and `/.env`
+ * is written with the variables that aren't secret
+ */
+export function removeSecretEnvironmentVariables(
+  files: SandpackBundlerFiles,
+  variables: SandpackEnvironmentVariables = {}
+): SandpackBundlerFiles {
+  const isSecret = (name: string): boolean => {
+    const variable = variables[name];
+
+    return typeof variable === "object" && Boolean(variable.secret);
+  };
+
+  const publicVariables = Object.keys(variables).reduce(
+    (acc: Record<string, string>, name) => {
+      const variable = variables[name];
+      if (!isSecret(name)) {
+        acc[name] = typeof variable === "string" ? variable : variable.value;
+      }
+
+      return acc;
+    },
+    {}
+  );
+
+  const envFileVariables = readEnvFile(files, ENV_FILE_PATH);
+  const publicNames = Object.keys({
+    ...envFileVariables,
+    ...publicVariables,
+  }).filter((name) => !isSecret(name));
+
+  const publicFiles = Object.keys(files).reduce(
+    (acc: SandpackBundlerFiles, path) => {
+      if (path !== LOCAL_ENV_FILE_PATH && path !== ENV_FILE_PATH) {
+        acc[path] = files[path];
+      }
+
+      return acc;
+    },
+    {}
+  );
+
+  // The file is kept as it's written unless something had to be added or removed
+  const isEnvFileUnchanged =
+    Object.keys(variables).length === 0 && files[ENV_FILE_PATH];
+
+  if (isEnvFileUnchanged) {
+    publicFiles[ENV_FILE_PATH] = files[ENV_FILE_PATH];
+  } else if (publicNames.length > 0) {
+    publicFiles[ENV_FILE_PATH] = {
+      code: publicNames
+        .map(
+          (name) =>
+            `${name}=${JSON.stringify(
+              publicVariables[name] ?? envFileVariables[name]
+            )}\n`
+        )
+        .join(""),
+    };
+  }
+
+  return publicFiles;
+}
@@ -25,7 +25,9 @@ export default class Protocol {
   constructor(
     private type: string,
     private handleMessage: (message: any) => any,
-    private target: Worker | Window
+    private target: Worker | Window,
+    // When defined, only messages coming from `target` with one of these origins are handled
+    private trustedOrigins?: string[]
   ) {
     this.createConnection();
     this.internalId = generateId();
@@ -63,7 +65,8 @@ export default class Protocol {
         if (
           data.$type === this.getTypeId() &&
           data.$id === messageId &&
-          data.$originId !== this.internalId
+          data.$originId !== this.internalId &&
+          this.isTrustedMessage(e)
         ) {
           resolve(data.$data);
 
@@ -89,6 +92,10 @@ export default class Protocol {
       return;
     }
 
+    if (!this.isTrustedMessage(e)) {
+      return;
+    }
+
     const result = await this.handleMessage(data.$data);
 
     const returnMessage = {
@@ -100,12 +107,20 @@ export default class Protocol {
 
     if (e.source) {
       // @ts-ignore
-      e.source.postMessage(returnMessage, "*");
+      e.source.postMessage(returnMessage, this.trustedOrigins ? e.origin : "*");
     } else {
       this._postMessage(returnMessage);
     }
   };
 
+  private isTrustedMessage(e: MessageEvent) {
+    if (!this.trustedOrigins) {
+      return true;
+    }
+
+    return e.source === this.target && this.trustedOrigins.includes(e.origin);
+  }
+
   private _postMessage(m: any) {
     if (
       this.isWorker ||
@@ -117,7 +132,10 @@ export default class Protocol {
       // @ts-ignore
       this.target.postMessage(m);
     } else {
-      (this.target as Window).postMessage(m, "*");
+      (this.target as Window).postMessage(
+        m,
+        this.trustedOrigins ? this.trustedOrigins[0] : "*"
+      );
     }
   }
 }
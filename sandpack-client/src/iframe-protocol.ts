@@ -1,15 +1,34 @@
 import type {
+  DroppedMessageReason,
   ListenerFunction,
+  MessageRecorder,
   SandpackMessage,
   UnsubscribeFunction,
 } from "./types";
 
+// Prefer the crypto API, so instances on the same page are very unlikely to share an id
+const generateChannelId = (): number => {
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+
+  return Math.floor(Math.random() * 1000000);
+};
+
+// Global listeners also get the window that sent the message, as it can be any iframe of the page
+type GlobalListenerFunction = (
+  message: SandpackMessage,
+  source: MessageEvent["source"]
+) => void;
+
 export class IFrameProtocol {
   private frameWindow: Window | null;
   private origin: string;
+  // Origins allowed to talk to this instance, messages from anywhere else are dropped
+  private trustedOrigins: string[];
 
   // React to messages from any iframe
-  private globalListeners: Record<number, ListenerFunction> = {};
+  private globalListeners: Record<number, GlobalListenerFunction> = {};
   private globalListenersCount = 0;
 
   // React to messages from the iframe owned by this instance
@@ -17,15 +36,29 @@ export class IFrameProtocol {
   private channelListenersCount = 0;
 
   // Random number to identify this instance of the client when messages are coming from multiple iframes
-  readonly channelId: number = Math.floor(Math.random() * 1000000);
+  readonly channelId: number = generateChannelId();
 
-  constructor(iframe: HTMLIFrameElement, origin: string) {
+  // Private channel transferred to the bundler on register, only used once the bundler
+  // answers through it. Until then (or for bundlers without support), messages are broadcast
+  private channel: MessageChannel | null = null;
+  private channelConnected = false;
+
+  // Sees every message of this instance in both directions, only set while recording
+  private recorder: MessageRecorder | null = null;
+
+  constructor(
+    iframe: HTMLIFrameElement,
+    origin: string,
+    trustedOrigins: string[] = [new URL(origin).origin]
+  ) {
     this.frameWindow = iframe.contentWindow;
     this.origin = origin;
+    this.trustedOrigins = trustedOrigins;
     this.globalListeners = [];
     this.channelListeners = [];
 
     this.eventListener = this.eventListener.bind(this);
+    this.portListener = this.portListener.bind(this);
 
     if (typeof window !== "undefined") {
       window.addEventListener("message", this.eventListener);
@@ -34,48 +67,85 @@ export class IFrameProtocol {
 
   cleanup(): void {
     window.removeEventListener("message", this.eventListener);
+    this.recorder = null;
+    this.closeChannel();
     this.globalListeners = {};
     this.channelListeners = {};
     this.globalListenersCount = 0;
     this.channelListenersCount = 0;
   }
 
+  // The iframe navigates to a (possibly different) bundler, the previous one can no longer talk to this instance
+  setOrigin(
+    origin: string,
+    trustedOrigins: string[] = [new URL(origin).origin]
+  ): void {
+    this.closeChannel();
+    this.origin = origin;
+    this.trustedOrigins = trustedOrigins;
+  }
+
   // Sends the channelId and triggers an iframeHandshake promise to resolve,
   // so the iframe can start listening for messages (based on the id)
+  // When supported by the browser, one end of a MessageChannel is transferred along,
+  // so the bundler can talk to this instance without going through the window
   register(): void {
     if (!this.frameWindow) {
       return;
     }
 
-    this.frameWindow.postMessage(
-      {
-        type: "register-frame",
-        origin: document.location.origin,
-        id: this.channelId, // TODO: Rename in codesandbox-api to channelId
-      },
-      this.origin
-    );
+    // The iframe might register again (eg: after a refresh), the previous port is dead by then
+    this.closeChannel();
+
+    const registerMessage = {
+      type: "register-frame",
+      origin: document.location.origin,
+      id: this.channelId, // TODO: Rename in codesandbox-api to channelId
+    };
+
+    if (typeof MessageChannel === "undefined") {
+      this.frameWindow.postMessage(registerMessage, this.origin);
+      return;
+    }
+
+    this.channel = new MessageChannel();
+    this.channel.port1.addEventListener("message", this.portListener);
+    this.channel.port1.start();
+
+    this.frameWindow.postMessage(registerMessage, this.origin, [
+      this.channel.port2,
+    ]);
+  }
+
+  setRecorder(recorder: MessageRecorder | null): void {
+    this.recorder = recorder;
   }
 
   // Messages are dispatched from the client directly to the instance iframe
   dispatch(message: SandpackMessage): void {
+    this.recorder?.("outgoing", message);
+
+    const payload = {
+      $id: this.channelId,
+      codesandbox: true,
+      ...message,
+    };
+
+    if (this.channel && this.channelConnected) {
+      this.channel.port1.postMessage(payload);
+      return;
+    }
+
     if (!this.frameWindow) {
       return;
     }
 
-    this.frameWindow.postMessage(
-      {
-        $id: this.channelId,
-        codesandbox: true,
-        ...message,
-      },
-      this.origin
-    );
+    this.frameWindow.postMessage(payload, this.origin);
   }
 
   // Add a listener that is called on any message coming from an iframe in the page
   // This is needed for the `initialize` message which comes without a channelId
-  globalListen(listener: ListenerFunction): UnsubscribeFunction {
+  globalListen(listener: GlobalListenerFunction): UnsubscribeFunction {
     if (typeof listener !== "function") {
       return () => {
         return;
@@ -107,22 +177,90 @@ export class IFrameProtocol {
     };
   }
 
+  // Delivers a message that was produced by the client itself to the channel listeners, nothing is sent to the bundler
+  notify(message: SandpackMessage): void {
+    this.recorder?.("incoming", message);
+
+    Object.values(this.channelListeners).forEach((listener) =>
+      listener(message)
+    );
+  }
+
   // Handles message windows coming from iframes
   private eventListener(message: MessageEvent) {
     if (!message.data.codesandbox) {
       return;
     }
 
+    if (!this.trustedOrigins.includes(message.origin)) {
+      this.dropMessage(message, "untrusted-origin");
+      return;
+    }
+
+    // Messages without a channelId (eg: `initialized`) are only recorded when they come from the iframe of this instance
+    if (message.data.$id === undefined && message.source === this.frameWindow) {
+      this.recorder?.("incoming", message.data);
+    }
+
     Object.values(this.globalListeners).forEach((listener) =>
+      listener(message.data, message.source)
+    );
+
+    // Once the private channel is connected, the bundler no longer broadcasts messages for this instance
+    if (message.data.$id !== this.channelId || this.channelConnected) {
+      return;
+    }
+
+    // Messages for this instance can only come from the iframe it owns
+    if (this.frameWindow && message.source !== this.frameWindow) {
+      this.dropMessage(message, "unexpected-source");
+      return;
+    }
+
+    this.recorder?.("incoming", message.data);
+
+    Object.values(this.channelListeners).forEach((listener) =>
       listener(message.data)
     );
+  }
 
-    if (message.data.$id !== this.channelId) {
+  // Handles messages coming through the private channel, only the bundler owned by this instance holds the other end
+  private portListener(message: MessageEvent) {
+    // The first message through the port confirms that the bundler supports it
+    this.channelConnected = true;
+
+    if (!message.data.codesandbox) {
       return;
     }
 
+    this.recorder?.("incoming", message.data);
+
+    Object.values(this.globalListeners).forEach((listener) =>
+      listener(message.data, this.frameWindow)
+    );
+
     Object.values(this.channelListeners).forEach((listener) =>
       listener(message.data)
     );
   }
+
+  // Let the channel listeners know that a message was ignored, useful to debug a misconfigured bundler
+  private dropMessage(message: MessageEvent, reason: DroppedMessageReason) {
+    this.notify({
+      type: "dropped-message",
+      origin: message.origin,
+      reason,
+    });
+  }
+
+  private closeChannel() {
+    if (!this.channel) {
+      return;
+    }
+
+    this.channel.port1.removeEventListener("message", this.portListener);
+    this.channel.port1.close();
+    this.channel = null;
+    this.channelConnected = false;
+  }
 }
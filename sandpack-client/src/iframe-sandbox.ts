@@ -0,0 +1,107 @@
+import type { SandpackIframeSandboxToken } from "./types";
+
+export const SANDBOX_TOKENS: SandpackIframeSandboxToken[] = [
+  "allow-downloads",
+  "allow-forms",
+  "allow-modals",
+  "allow-orientation-lock",
+  "allow-pointer-lock",
+  "allow-popups",
+  "allow-popups-to-escape-sandbox",
+  "allow-presentation",
+  "allow-same-origin",
+  "allow-scripts",
+  "allow-storage-access-by-user-activation",
+  "allow-top-navigation",
+  "allow-top-navigation-by-user-activation",
+  "allow-top-navigation-to-custom-protocols",
+];
+
+// The bundler needs scripts and its own origin (for the service worker and the storage), the rest is
+// what most examples need without letting the iframe navigate the host page
+export const DEFAULT_SANDBOX_TOKENS: SandpackIframeSandboxToken[] = [
+  "allow-forms",
+  "allow-modals",
+  "allow-popups",
+  "allow-presentation",
+  "allow-same-origin",
+  "allow-scripts",
+];
+
+export const PERMISSIONS_POLICY_FEATURES = [
+  "accelerometer",
+  "ambient-light-sensor",
+  "autoplay",
+  "battery",
+  "bluetooth",
+  "browsing-topics",
+  "camera",
+  "clipboard-read",
+  "clipboard-write",
+  "compute-pressure",
+  "cross-origin-isolated",
+  "display-capture",
+  "encrypted-media",
+  "fullscreen",
+  "gamepad",
+  "geolocation",
+  "gyroscope",
+  "hid",
+  "idle-detection",
+  "local-fonts",
+  "magnetometer",
+  "microphone",
+  "midi",
+  "payment",
+  "otp-credentials",
+  "picture-in-picture",
+  "publickey-credentials-create",
+  "publickey-credentials-get",
+  "screen-wake-lock",
+  "serial",
+  "speaker-selection",
+  "storage-access",
+  "sync-xhr",
+  "usb",
+  "web-share",
+  "window-management",
+  "xr-spatial-tracking",
+];
+
+/**
+ * Unknown tokens are dropped with a warning, the iframe is created in the constructor
+ * of the client and an error there would leave the preview loading forever
+ */
+export function getSandboxAttribute(
+  tokens: SandpackIframeSandboxToken[] = DEFAULT_SANDBOX_TOKENS
+): string {
+  const validTokens = tokens.filter((token) => {
+    if (SANDBOX_TOKENS.includes(token)) {
+      return true;
+    }
+
+    console.warn(`Unknown sandbox token '${token}' ignored.`);
+    return false;
+  });
+
+  return Array.from(new Set(validTokens)).join(" ");
+}
+
+/**
+ * Each feature can be followed by its allowlist, eg: `camera 'self' https://example.com`.
+ * Unknown features are dropped with a warning, like the sandbox tokens
+ */
+export function getAllowAttribute(features: string[]): string {
+  return features
+    .map((feature) => feature.trim())
+    .filter((feature) => {
+      const [name] = feature.split(/\s+/);
+      if (PERMISSIONS_POLICY_FEATURES.includes(name)) {
+        return true;
+      }
+
+      console.warn(`Unknown permissions policy feature '${name}' ignored.`);
+      return false;
+    })
+    .join("; ");
+}
@@ -23,5 +23,9 @@
  */
 
 export * from "./client";
+export * from "./environment-variables";
+export * from "./iframe-sandbox";
+export * from "./package-json";
+export * from "./recorder";
 export * from "./utils";
 export * from "./types";
@@ -0,0 +1,299 @@
+import type { SandpackErrorMessage } from "./types";
+
+const PACKAGE_JSON_PATH = "/package.json";
+
+class JSONSyntaxError extends Error {
+  constructor(message: string, public offset: number) {
+    super(message);
+  }
+}
+
+/**
+ * Minimal JSON scanner, `JSON.parse` errors don't have a position in every browser
+ * so the input is walked again to find where it breaks
+ */
+function scanJSON(code: string): void {
+  let offset = 0;
+
+  const fail = (message: string): never => {
+    throw new JSONSyntaxError(message, offset);
+  };
+
+  const describe = (): string =>
+    offset < code.length
+      ? `Unexpected token ${JSON.stringify(code[offset])}`
+      : "Unexpected end of JSON input";
+
+  // Only the whitespace of the JSON spec, `\s` would also accept eg: non-breaking spaces
+  const skipWhitespace = () => {
+    while (/[ \t\n\r]/.test(code[offset] ?? "")) {
+      offset++;
+    }
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (code[offset] !== char) {
+      fail(`${describe()}, expected "${char}"`);
+    }
+
+    offset++;
+  };
+
+  const scanString = () => {
+    expect('"');
+    while (code[offset] !== '"') {
+      if (offset >= code.length || code[offset] === "\n") {
+        fail("Unterminated string");
+      }
+
+      // Tabs and other control characters have to be escaped
+      if (code.charCodeAt(offset) < 0x20) {
+        fail("Bad control character in string");
+      }
+
+      if (code[offset] === "\\") {
+        offset++;
+        const escape = /^(["\\/bfnrt]|u[0-9a-fA-F]{4})/.exec(
+          code.slice(offset)
+        );
+        if (!escape) {
+          return fail("Bad escaped character in string");
+        }
+
+        offset += escape[0].length;
+        continue;
+      }
+
+      offset++;
+    }
+
+    offset++;
+  };
+
+  const scanList = (close: string, scanItem: () => void) => {
+    offset++;
+    skipWhitespace();
+    if (code[offset] === close) {
+      offset++;
+      return;
+    }
+
+    scanItem();
+    skipWhitespace();
+    while (code[offset] === ",") {
+      offset++;
+      scanItem();
+      skipWhitespace();
+    }
+
+    expect(close);
+  };
+
+  const scanValue = (): void => {
+    skipWhitespace();
+
+    if (code[offset] === "{") {
+      scanList("}", () => {
+        skipWhitespace();
+        if (code[offset] !== '"') {
+          fail(`${describe()}, expected a property name`);
+        }
+
+        scanString();
+        expect(":");
+        scanValue();
+      });
+
+      return;
+    }
+
+    if (code[offset] === "[") {
+      scanList("]", scanValue);
+      return;
+    }
+
+    if (code[offset] === '"') {
+      scanString();
+      return;
+    }
+
+    const literal =
+      /^(true|false|null|-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?)/.exec(
+        code.slice(offset)
+      );
+    if (!literal) {
+      return fail(describe());
+    }
+
+    offset += literal[0].length;
+  };
+
+  scanValue();
+  skipWhitespace();
+  if (offset < code.length) {
+    fail(describe());
+  }
+}
+
+function getLocation(code: string, offset: number) {
+  const lines = code.slice(0, offset).split("\n");
+
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+// Tags (latest, next), urls, git repositories, local paths and aliases are resolved by the package manager
+const NON_SEMVER_RANGE =
+  /^([a-zA-Z][\w.-]*|(https?|git(\+\w+)?|github|gitlab|bitbucket|file|link|npm|workspace):.*|[\w.-]+\/[\w.-]+(#.*)?|\.{0,2}\/.*)$/;
+const VERSION =
+  "v?(0|[1-9]\\d*|[xX*])(\\.(0|[1-9]\\d*|[xX*])){0,2}(-[\\w.-]+)?(\\+[\\w.-]+)?";
+const COMPARATOR = new RegExp(`^(\\^|~|>=?|<=?|=)?\\s*${VERSION}$`);
+const HYPHEN_RANGE = new RegExp(`^${VERSION}\\s+-\\s+${VERSION}$`);
+
+export function isValidDependencyRange(range: string): boolean {
+  const trimmed = range.trim();
+  if (trimmed === "" || trimmed === "*" || NON_SEMVER_RANGE.test(trimmed)) {
+    return true;
+  }
+
+  return trimmed.split("||").every((set) => {
+    const comparators = set.trim();
+    if (comparators === "" || HYPHEN_RANGE.test(comparators)) {
+      return true;
+    }
+
+    // Operators can be separated from the version by spaces, eg: ">= 1.0.0 < 2"
+    return comparators
+      .replace(/(\^|~|>=?|<=?|=)\s+/g, "$1")
+      .split(/\s+/)
+      .every((comparator) => COMPARATOR.test(comparator));
+  });
+}
+
+function createError(
+  code: string,
+  title: string,
+  message: string,
+  offset: number
+): SandpackErrorMessage {
+  const { line, column } = getLocation(code, offset);
+
+  // Same format as the errors of the bundler
+  return {
+    title,
+    path: PACKAGE_JSON_PATH,
+    message: `${PACKAGE_JSON_PATH}: ${message} (${line}:${column})`,
+    line,
+    column,
+    payload: {},
+  };
+}
+
+/**
+ * Checks the manifest of the sandbox before it's compiled, a broken package.json
+ * would otherwise be bundled with the wrong dependencies or entry. Problems that
+ * don't stop the compilation come with a `"warning"` severity
+ */
+export function validatePackageJSON(code: string): SandpackErrorMessage | null {
+  try {
+    scanJSON(code);
+  } catch (error) {
+    if (error instanceof JSONSyntaxError) {
+      return createError(
+        code,
+        "SyntaxError",
+        `Could not parse package.json: ${error.message}`,
+        error.offset
+      );
+    }
+
+    throw error;
+  }
+
+  let packageJSON;
+  try {
+    packageJSON = JSON.parse(code);
+  } catch (error) {
+    // Anything the scanner lets through is still reported, the sandbox is edited as it's typed
+    return createError(
+      code,
+      "SyntaxError",
+      `Could not parse package.json: ${(error as Error).message}`,
+      0
+    );
+  }
+
+  if (
+    typeof packageJSON !== "object" ||
+    packageJSON === null ||
+    Array.isArray(packageJSON)
+  ) {
+    return createError(
+      code,
+      "PackageJSONError",
+      "package.json must contain an object",
+      0
+    );
+  }
+
+  // Without a "main" the bundler falls back to the entry of the template, so it's only a warning
+  let warning: SandpackErrorMessage | null = null;
+  if (typeof packageJSON.main !== "string" || packageJSON.main === "") {
+    const mainOffset = code.indexOf('"main"');
+
+    warning = {
+      ...createError(
+        code,
+        "PackageJSONWarning",
+        'package.json is missing the "main" field, which sets the entry file of the sandbox',
+        mainOffset === -1 ? code.indexOf("{") : mainOffset
+      ),
+      severity: "warning",
+    };
+  }
+
+  for (const field of ["dependencies", "devDependencies"]) {
+    const dependencies = packageJSON[field];
+    if (dependencies === undefined) {
+      continue;
+    }
+
+    const fieldOffset = code.indexOf(`"${field}"`);
+
+    if (
+      typeof dependencies !== "object" ||
+      dependencies === null ||
+      Array.isArray(dependencies)
+    ) {
+      return createError(
+        code,
+        "PackageJSONError",
+        `"${field}" in package.json must be an object`,
+        fieldOffset
+      );
+    }
+
+    for (const name of Object.keys(dependencies)) {
+      const range = dependencies[name];
+      if (typeof range === "string" && isValidDependencyRange(range)) {
+        continue;
+      }
+
+      const nameOffset = code.indexOf(
+        JSON.stringify(name),
+        fieldOffset + field.length + 2
+      );
+
+      return createError(
+        code,
+        "PackageJSONError",
+        `Invalid version range ${JSON.stringify(
+          range
+        )} for "${name}" in ${field}`,
+        nameOffset === -1 ? fieldOffset : nameOffset
+      );
+    }
+  }
+
+  return warning;
+}
@@ -0,0 +1,51 @@
+import type { SandpackRecordedMessage, SandpackRecording } from "./types";
+
+export function createRecording(): SandpackRecording {
+  return { version: 1, startTime: Date.now(), messages: [] };
+}
+
+const isRecordedMessage = (
+  entry: unknown
+): entry is SandpackRecordedMessage => {
+  const { timestamp, direction, message } = (entry ?? {}) as Record<
+    string,
+    unknown
+  >;
+
+  return (
+    typeof timestamp === "number" &&
+    (direction === "outgoing" || direction === "incoming") &&
+    typeof message === "object" &&
+    message !== null &&
+    typeof (message as { type?: unknown }).type === "string"
+  );
+};
+
+/**
+ * Reads a recording exported with `JSON.stringify`, eg: one attached to a bug report
+ */
+export function parseRecording(json: string): SandpackRecording {
+  let recording: Partial<SandpackRecording>;
+  try {
+    recording = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid recording provided, it is not valid JSON.");
+  }
+
+  if (
+    recording?.version !== 1 ||
+    typeof recording.startTime !== "number" ||
+    !Array.isArray(recording.messages) ||
+    !recording.messages.every(isRecordedMessage)
+  ) {
+    throw new Error(
+      "Invalid recording provided, it was not exported by SandpackClient."
+    );
+  }
+
+  // Recordings exported before the messages had an id get one from their position
+  return {
+    ...(recording as SandpackRecording),
+    messages: recording.messages.map((entry, id) => ({ ...entry, id })),
+  };
+}
@@ -2,6 +2,11 @@ import type { ITemplate } from "codesandbox-import-util-types";
 
 export interface SandpackBundlerFile {
   code: string;
+  /**
+   * Images, fonts, wasm and other non-text files, their `code` is the base64 encoded content
+   */
+  isBinary?: boolean;
+  mimeType?: string;
 }
 
 export type SandpackBundlerFiles = Record<string, SandpackBundlerFile>;
@@ -9,15 +14,11 @@ export type SandpackBundlerFiles = Record<string, SandpackBundlerFile>;
 export interface Module {
   code: string;
   path: string;
+  isBinary?: boolean;
+  mimeType?: string;
 }
 
-export type Modules = Record<
-  string,
-  {
-    code: string;
-    path: string;
-  }
->;
+export type Modules = Record<string, Module>;
 
 export type Dependencies = Record<string, string>;
 
@@ -75,6 +76,27 @@ export type ClientStatus =
   | "running-tests"
   | "idle";
 
+/**
+ * Timings of a single compilation, in milliseconds. The phases the bundler
+ * skipped (eg: the dependencies were already installed) are 0
+ */
+export interface SandpackCompileMetrics {
+  /**
+   * When the compilation started, as a timestamp
+   */
+  startTime: number;
+  dependencyInstall: number;
+  transpile: number;
+  evaluate: number;
+  total: number;
+  /**
+   * Modules of the sandbox and its dependencies that have been transpiled
+   */
+  transpiledModules: number;
+  firstLoad: boolean;
+  compilationError: boolean;
+}
+
 export type ListenerFunction = (msg: SandpackMessage) => void;
 export type UnsubscribeFunction = () => void;
 
@@ -84,35 +106,247 @@ export type Listen = (
 ) => UnsubscribeFunction;
 export type Dispatch = (msg: SandpackMessage, clientId?: string) => void;
 
+export type SandpackErrorSeverity = "error" | "warning";
+
+export interface SandpackErrorFrame {
+  /**
+   * Original location of the frame when the bundler could map it, the compiled one otherwise
+   */
+  path: string;
+  line: number;
+  column: number;
+  functionName?: string;
+  /**
+   * Whether the frame belongs to the code of the sandbox, instead of a dependency or the bundler
+   */
+  isMapped: boolean;
+}
+
 export interface SandpackError {
+  /**
+   * Derived from the content of the error, the same error reported again keeps the same id
+   */
+  id: string;
   message: string;
+  severity: SandpackErrorSeverity;
   line?: number;
   column?: number;
   path?: string;
   title?: string;
+  frames: SandpackErrorFrame[];
 }
 
+/**
+ * Besides errors, the bundler notifies about things that don't stop the sandbox
+ * from running, eg: usage of a deprecated API, a dependency that was resolved
+ * to a fallback version or a slow transpilation
+ */
+export type SandpackNotificationType = "error" | "warning" | "info";
+
 export interface SandpackErrorMessage {
   title: string;
   path: string;
   message: string;
   line: number;
   column: number;
+  severity?: SandpackErrorSeverity;
   payload: {
     frames?: ErrorStackFrame[];
   };
 }
 
+export type SandpackConsoleLevel = "log" | "info" | "warn" | "error" | "debug";
+
+export interface SandpackConsoleEntry {
+  level: SandpackConsoleLevel;
+  /**
+   * Arguments passed to the console method, serialized by the bundler
+   */
+  data: string[];
+  timestamp: number;
+}
+
+export interface SandpackTestError {
+  message: string;
+  stack?: string;
+  path?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface SandpackTestResult {
+  path: string;
+  /**
+   * Names of the describe blocks wrapping the test, from the outermost to the innermost
+   */
+  blocks: string[];
+  name: string;
+  status: "pass" | "fail";
+  errors: SandpackTestError[];
+  /**
+   * Time spent running the test, in milliseconds
+   */
+  duration: number;
+}
+
+export interface SandpackTestSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  duration: number;
+}
+
+export type SandpackIframeSandboxToken =
+  | "allow-downloads"
+  | "allow-forms"
+  | "allow-modals"
+  | "allow-orientation-lock"
+  | "allow-pointer-lock"
+  | "allow-popups"
+  | "allow-popups-to-escape-sandbox"
+  | "allow-presentation"
+  | "allow-same-origin"
+  | "allow-scripts"
+  | "allow-storage-access-by-user-activation"
+  | "allow-top-navigation"
+  | "allow-top-navigation-by-user-activation"
+  | "allow-top-navigation-to-custom-protocols";
+
+export type DroppedMessageReason = "untrusted-origin" | "unexpected-source";
+
+/**
+ * `outgoing`: dispatched by the client to the bundler;
+ *
+ * `incoming`: received from the bundler, or produced by the client itself for its listeners.
+ */
+export type SandpackMessageDirection = "outgoing" | "incoming";
+
+export type MessageRecorder = (
+  direction: SandpackMessageDirection,
+  message: SandpackMessage
+) => void;
+
+export interface SandpackRecordedMessage {
+  /**
+   * Position of the message in its recording
+   */
+  id: number;
+  timestamp: number;
+  direction: SandpackMessageDirection;
+  message: SandpackMessage;
+}
+
+export interface SandpackRecording {
+  version: 1;
+  startTime: number;
+  messages: SandpackRecordedMessage[];
+}
+
+export type FileResolverChangeEvent = "create" | "update" | "delete";
+
+export interface FileResolverChange {
+  event: FileResolverChangeEvent;
+  path: string;
+}
+
+export interface FileResolverStat {
+  type: "file" | "directory";
+  size: number;
+  /**
+   * Last modification, in milliseconds since epoch
+   */
+  mtime?: number;
+}
+
+/**
+ * Virtual file system used by the bundler to read the files that are not part of the sandbox.
+ * Only `isFile` and `readFile` are required, the bundler is told which of the other methods are available
+ */
+export interface FileResolver {
+  isFile: (path: string) => Promise<boolean>;
+  readFile: (path: string) => Promise<string>;
+  /**
+   * Names of the entries in a directory, not their full paths
+   */
+  readdir?: (path: string) => Promise<string[]>;
+  stat?: (path: string) => Promise<FileResolverStat>;
+  writeFile?: (path: string, content: string) => Promise<void>;
+  /**
+   * Subscribes to the changes of the files, returning a function to unsubscribe. The client
+   * doesn't subscribe itself: the host forwards the changes to the bundler as `fs-change`
+   * messages, so it can invalidate its cache (the provider of sandpack-react does it)
+   */
+  watch?: (listener: (change: FileResolverChange) => void) => () => void;
+}
+
+export type FileResolverMethod =
+  | "isFile"
+  | "readFile"
+  | "readdir"
+  | "stat"
+  | "writeFile";
+
+export type FileResolverRequest =
+  | { m: "isFile" | "readFile" | "readdir" | "stat"; p: string }
+  | { m: "writeFile"; p: string; c: string };
+
+/**
+ * Value of an environment variable, the secret ones are sent to the bundler
+ * but left out of the sandboxes exported to CodeSandbox
+ */
+export type SandpackEnvironmentVariable =
+  | string
+  | { value: string; secret?: boolean };
+
+export type SandpackEnvironmentVariables = Record<
+  string,
+  SandpackEnvironmentVariable
+>;
+
+export interface CompileOptions {
+  externalResources: string[];
+  hasFileResolver: boolean;
+  fileResolverMethods?: FileResolverMethod[];
+  disableDependencyPreprocessing?: boolean;
+  template?: string | ITemplate;
+  showOpenInCodeSandbox: boolean;
+  showErrorScreen: boolean;
+  showLoadingScreen: boolean;
+  skipEval: boolean;
+  clearConsoleDisabled?: boolean;
+  /**
+   * Values of `process.env` and `import.meta.env` in the sandbox
+   */
+  environmentVariables?: Record<string, string>;
+}
+
 export interface BaseSandpackMessage {
   type: string;
   $id?: number;
+  /**
+   * Set by `SandpackClient.request` and echoed back by the bundler on the reply
+   */
+  $requestId?: number;
+  /**
+   * Set on a reply when the bundler could not answer the request
+   */
+  $error?: string;
   codesandbox?: boolean;
 }
 
+export type SandpackMessageOfType<T extends SandpackMessage["type"]> = Extract<
+  SandpackMessage,
+  { type: T }
+>;
+
 export type SandpackMessage = BaseSandpackMessage &
   (
     | {
         type: "initialized";
+        /**
+         * Set by bundlers that can apply a `patch` message on top of the last compile
+         */
+        supportsPatch?: boolean;
       }
     | {
         type: "start";
@@ -136,19 +370,56 @@ export type SandpackMessage = BaseSandpackMessage &
     | {
         type: "action";
         action: "notification";
-        notificationType: "error";
+        notificationType: SandpackNotificationType;
         title: string;
+        message?: string;
       }
+    | ({
+        type: "console";
+      } & SandpackConsoleEntry)
+    | {
+        type: "test";
+        event: "run_start";
+      }
+    | {
+        type: "test";
+        event: "suite_start";
+        path: string;
+      }
+    | ({
+        type: "test";
+        event: "test_end";
+      } & SandpackTestResult)
+    | ({
+        type: "test";
+        event: "run_end";
+      } & SandpackTestSummary)
     | {
         type: "done";
         compilatonError: boolean; // TODO: fix typo?
       }
+    | {
+        type: "compile-metrics";
+        metrics: SandpackCompileMetrics;
+        /**
+         * Every compilation kept by the client, the oldest first
+         */
+        history: SandpackCompileMetrics[];
+      }
     | {
         type: "urlchange";
         url: string;
         back: boolean;
         forward: boolean;
       }
+    | ({
+        type: "fs-change";
+      } & FileResolverChange)
+    | {
+        type: "dropped-message";
+        origin: string;
+        reason: DroppedMessageReason;
+      }
     | {
         type: "resize";
         height: number;
@@ -157,20 +428,22 @@ export type SandpackMessage = BaseSandpackMessage &
         type: "transpiler-context";
         data: Record<string, Record<string, unknown>>;
       }
-    | {
+    | ({
         type: "compile";
         version: number;
         isInitializationCompile?: boolean;
         modules: Modules;
-        externalResources: string[];
-        hasFileResolver: boolean;
-        disableDependencyPreprocessing?: boolean;
-        template?: string | ITemplate;
-        showOpenInCodeSandbox: boolean;
-        showErrorScreen: boolean;
-        showLoadingScreen: boolean;
-        skipEval: boolean;
-        clearConsoleDisabled?: boolean;
+      } & CompileOptions)
+    | {
+        type: "patch";
+        /**
+         * Modules added or changed since the last compile
+         */
+        modules: Modules;
+        removedModules: string[];
+      }
+    | {
+        type: "patch-unsupported";
       }
     | {
         type: "refresh";
@@ -184,4 +457,11 @@ export type SandpackMessage = BaseSandpackMessage &
     | {
         type: "get-transpiler-context";
       }
+    | {
+        type: "run-tests";
+        /**
+         * Only run the tests of this file, all test files are run when omitted
+         */
+        path?: string;
+      }
   );
@@ -1,8 +1,11 @@
 import type {
+  SandpackBundlerFile,
   SandpackBundlerFiles,
+  Modules,
   Dependencies,
   SandpackErrorMessage,
   SandpackError,
+  SandpackErrorFrame,
   ErrorStackFrame,
 } from "./types";
 
@@ -52,7 +55,89 @@ export function addPackageJSONIfNeeded(
   return newFiles;
 }
 
+export function createModules(files: SandpackBundlerFiles): Modules {
+  return Object.keys(files).reduce((acc: Modules, path) => {
+    const { code, isBinary, mimeType } = files[path];
+    acc[path] = isBinary ? { code, path, isBinary, mimeType } : { code, path };
+    return acc;
+  }, {});
+}
+
+/**
+ * Content of a file in the format of the CodeSandbox define API,
+ * where binary files are referenced by URL, so they are sent as data URLs
+ */
+export function getCodeSandboxFileContent(file: SandpackBundlerFile): {
+  content: string;
+  isBinary: boolean;
+} {
+  if (!file.isBinary) {
+    return { content: file.code, isBinary: false };
+  }
+
+  return {
+    content: `data:${file.mimeType || "application/octet-stream"};base64,${
+      file.code
+    }`,
+    isBinary: true,
+  };
+}
+
+/**
+ * Modules that were added or changed since `previousModules` and the paths of the ones
+ * that were removed, this is what the bundler needs to update an existing compilation
+ */
+export function getModulesPatch(
+  previousModules: Modules,
+  modules: Modules
+): { modules: Modules; removedModules: string[] } {
+  const changedModules = Object.keys(modules).reduce((acc: Modules, path) => {
+    const previousModule = previousModules[path];
+    if (
+      previousModule?.code !== modules[path].code ||
+      previousModule.mimeType !== modules[path].mimeType
+    ) {
+      acc[path] = modules[path];
+    }
+
+    return acc;
+  }, {});
+
+  const removedModules = Object.keys(previousModules).filter(
+    (path) => !modules[path]
+  );
+
+  return { modules: changedModules, removedModules };
+}
+
 export function extractErrorDetails(msg: SandpackErrorMessage): SandpackError {
+  return createSandpackError({
+    ...getErrorDetails(msg),
+    severity: msg.severity,
+    frames: getErrorFrames(msg.payload.frames),
+  });
+}
+
+/**
+ * Fills the id, severity and frames of an error that didn't come from the bundler
+ */
+export function createSandpackError(
+  details: Omit<SandpackError, "id" | "severity" | "frames"> &
+    Partial<Pick<SandpackError, "severity" | "frames">>
+): SandpackError {
+  const { title, path, line, column, message } = details;
+
+  return {
+    ...details,
+    id: getErrorId([title, path, line, column, message].join("|")),
+    severity: details.severity ?? "error",
+    frames: details.frames ?? [],
+  };
+}
+
+function getErrorDetails(
+  msg: SandpackErrorMessage
+): Omit<SandpackError, "id" | "severity" | "frames"> {
   if (msg.title === "SyntaxError") {
     const { title, path, message, line, column } = msg;
     return { title, path, message, line, column };
@@ -60,6 +145,12 @@ export function extractErrorDetails(msg: SandpackErrorMessage): SandpackError {
 
   const relevantStackFrame = getRelevantStackFrame(msg.payload.frames);
   if (!relevantStackFrame) {
+    // Errors found before evaluating the code (eg: an invalid package.json) point straight to the file
+    if (msg.path) {
+      const { title, path, message, line, column } = msg;
+      return { title, path, message, line, column };
+    }
+
     return { message: msg.message };
   }
 
@@ -81,6 +172,45 @@ export function extractErrorDetails(msg: SandpackErrorMessage): SandpackError {
   };
 }
 
+function getErrorFrames(frames: ErrorStackFrame[] = []): SandpackErrorFrame[] {
+  return frames.map((frame) =>
+    frame._originalFileName
+      ? {
+          path: frame._originalFileName,
+          line: frame._originalLineNumber,
+          column: frame._originalColumnNumber,
+          functionName:
+            frame._originalFunctionName || frame.functionName || undefined,
+          isMapped: true,
+        }
+      : {
+          path: frame.fileName,
+          line: frame.lineNumber,
+          column: frame.columnNumber,
+          functionName: frame.functionName || undefined,
+          isMapped: false,
+        }
+  );
+}
+
+/**
+ * djb2, only meant to tell when some content changed and to make short stable ids,
+ * not to compare the content safely
+ */
+export function hashString(content: string): string {
+  let hash = 5381;
+  for (let index = 0; index < content.length; index++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(index)) | 0;
+  }
+
+  return (hash >>> 0).toString(36);
+}
+
+// The id only needs to be stable and short, not unique across every possible error
+function getErrorId(content: string): string {
+  return `error-${hashString(content)}`;
+}
+
 function getRelevantStackFrame(frames?: ErrorStackFrame[]) {
   if (!frames) {
     return;
@@ -0,0 +1,28 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { useSandpackZip } from "../hooks/useSandpackZip";
+import { DownloadIcon } from "../icons";
+
+export interface DownloadButtonProps {
+  fileName?: string;
+}
+
+/**
+ * @category Components
+ */
+export const DownloadButton: React.FC<DownloadButtonProps> = ({ fileName }) => {
+  const { downloadZip } = useSandpackZip();
+  const c = useClasser("sp");
+
+  return (
+    <button
+      className={c("button", "icon-standalone")}
+      onClick={() => downloadZip(fileName)}
+      title="Download as zip"
+      type="button"
+    >
+      <DownloadIcon />
+    </button>
+  );
+};
@@ -1,21 +1,86 @@
 import { useClasser } from "@code-hike/classer";
+import type { SandpackErrorFrame } from "@codesandbox/sandpack-client";
 import * as React from "react";
 
-import { useErrorMessage } from "../hooks/useErrorMessage";
+import { useSandpack } from "../hooks/useSandpack";
+
+export interface ErrorOverlayProps {
+  /**
+   * Shows every error and warning of a single client, instead of the last
+   * error reported by any of them
+   */
+  clientId?: string;
+}
 
 /**
  * @category Components
  */
-export const ErrorOverlay: React.FC = () => {
-  const errorMessage = useErrorMessage();
+export const ErrorOverlay: React.FC<ErrorOverlayProps> = ({ clientId }) => {
+  const { sandpack } = useSandpack();
   const c = useClasser("sp");
 
-  if (!errorMessage) {
+  React.useEffect(() => {
+    sandpack.errorScreenRegisteredRef.current = true;
+  }, [sandpack.errorScreenRegisteredRef]);
+
+  const { error, errors: clientErrors } = sandpack;
+  const errors = clientId ? clientErrors[clientId] ?? [] : error ? [error] : [];
+
+  if (errors.length === 0) {
     return null;
   }
+
   return (
     <div className={c("overlay", "error")} translate="no">
-      <div className={c("error-message")}>{errorMessage}</div>
+      {errors.map(({ id, message, severity, frames }) => (
+        <div key={id} className={c("error-message")} data-severity={severity}>
+          {message}
+
+          {frames.length > 0 ? <ErrorStack frames={frames} /> : null}
+        </div>
+      ))}
     </div>
   );
 };
+
+const ErrorStack: React.FC<{ frames: SandpackErrorFrame[] }> = ({ frames }) => {
+  const { sandpack } = useSandpack();
+  const c = useClasser("sp");
+
+  return (
+    <ol className={c("error-stack")}>
+      {frames.map((frame, index) => {
+        const label = `${frame.functionName ?? "(anonymous function)"} ${
+          frame.path
+        }:${frame.line}:${frame.column}`;
+
+        // Only the frames of the sandbox files can be opened in the editor
+        if (!frame.isMapped || !sandpack.files[frame.path]) {
+          return (
+            <li key={index} className={c("error-frame")}>
+              {label}
+            </li>
+          );
+        }
+
+        return (
+          <li key={index} className={c("error-frame")} data-mapped="true">
+            <button
+              className={c("error-frame-button")}
+              onClick={() =>
+                sandpack.openFile(frame.path, {
+                  line: frame.line,
+                  column: frame.column,
+                })
+              }
+              title={`Open ${frame.path} at line ${frame.line}`}
+              type="button"
+            >
+              {label}
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
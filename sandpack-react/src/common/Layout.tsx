@@ -5,8 +5,14 @@ import { SandpackThemeProvider } from "../contexts/themeContext";
 import { useSandpack } from "../hooks/useSandpack";
 import type { SandpackThemeProp } from "../types";
 
+import { SandpackNotifications } from "./Notifications";
+
 export interface SandpackLayoutProps {
   theme?: SandpackThemeProp;
+  /**
+   * Shows the warnings and info from the bundler as dismissible toasts
+   */
+  showNotifications?: boolean;
 }
 
 /**
@@ -15,6 +21,7 @@ export interface SandpackLayoutProps {
 export const SandpackLayout: React.FC<SandpackLayoutProps> = ({
   children,
   theme,
+  showNotifications = true,
 }) => {
   const { sandpack } = useSandpack();
   const c = useClasser("sp");
@@ -23,6 +30,7 @@ export const SandpackLayout: React.FC<SandpackLayoutProps> = ({
     <SandpackThemeProvider theme={theme}>
       <div ref={sandpack.lazyAnchorRef} className={c("layout")}>
         {children}
+        {showNotifications ? <SandpackNotifications /> : null}
       </div>
     </SandpackThemeProvider>
   );
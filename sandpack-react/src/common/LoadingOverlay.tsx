@@ -2,6 +2,7 @@ import { useClasser } from "@code-hike/classer";
 import * as React from "react";
 
 import { useLoadingOverlayState } from "../hooks/useLoadingOverlayState";
+import { useSandpack } from "../hooks/useSandpack";
 
 import { OpenInCodeSandboxButton } from "./OpenInCodeSandboxButton";
 
@@ -14,7 +15,9 @@ export interface LoadingOverlayProps {
  */
 export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ clientId }) => {
   const loadingOverlayState = useLoadingOverlayState(clientId);
+  const { sandpack } = useSandpack();
   const c = useClasser("sp");
+  const { attempt, maxAttempts } = sandpack.bundlerAttempt;
 
   if (loadingOverlayState === "hidden") {
     return null;
@@ -43,6 +46,13 @@ export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ clientId }) => {
             GitHub.
           </a>
         </div>
+        <button
+          className={c("button", "retry-button")}
+          onClick={sandpack.retryBundler}
+          type="button"
+        >
+          Try again
+        </button>
       </div>
     );
   }
@@ -68,6 +78,14 @@ export const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ clientId }) => {
           </div>
         </div>
       </div>
+
+      {attempt > 1 || sandpack.status === "retrying" ? (
+        <p className={c("bundler-attempt")}>
+          {sandpack.status === "retrying"
+            ? `Attempt ${attempt} of ${maxAttempts} timed out, retrying…`
+            : `Attempt ${attempt} of ${maxAttempts}`}
+        </p>
+      ) : null}
     </div>
   );
 };
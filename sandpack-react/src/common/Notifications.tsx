@@ -0,0 +1,46 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { useSandpackNotifications } from "../hooks/useSandpackNotifications";
+import { CloseIcon } from "../icons";
+
+/**
+ * @category Components
+ */
+export const SandpackNotifications: React.FC<{ clientId?: string }> = ({
+  clientId,
+}) => {
+  const { notifications, dismiss } = useSandpackNotifications(clientId);
+  const c = useClasser("sp");
+
+  if (notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div aria-live="polite" className={c("notifications")} translate="no">
+      {notifications.map(({ id, type, title, message }) => (
+        <div
+          key={id}
+          className={c("notification")}
+          data-type={type}
+          role="status"
+        >
+          <div className={c("notification-content")}>
+            <span className={c("notification-title")}>{title}</span>
+            {message ? <span>{message}</span> : null}
+          </div>
+
+          <button
+            className={c("button", "icon")}
+            onClick={() => dismiss(id)}
+            title="Dismiss notification"
+            type="button"
+          >
+            <CloseIcon />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { getExportProvider, openExportResult } from "../exportProviders";
+import { useSandpack } from "../hooks/useSandpack";
+import { useSandpackTheme } from "../hooks/useSandpackTheme";
+import { ExportIcon } from "../icons";
+import type { SandpackExportProviderProp } from "../types";
+import { isDarkColor } from "../utils/stringUtils";
+
+export interface OpenInButtonProps {
+  /**
+   * Defaults to the `exportProvider` set on the SandpackProvider
+   */
+  provider?: SandpackExportProviderProp;
+}
+
+/**
+ * @category Components
+ */
+export const OpenInButton: React.FC<OpenInButtonProps> = ({ provider }) => {
+  const { sandpack } = useSandpack();
+  const { theme } = useSandpackTheme();
+  const c = useClasser("sp");
+  const exportProvider = provider
+    ? getExportProvider(provider)
+    : sandpack.exportProvider;
+  const Icon = exportProvider.icon ?? ExportIcon;
+  const { openInCSBRegisteredRef } = sandpack;
+
+  // Any export button replaces the "Open in CodeSandbox" button of the bundler
+  React.useEffect(() => {
+    openInCSBRegisteredRef.current = true;
+  }, [openInCSBRegisteredRef]);
+
+  const handleClick = async (): Promise<void> => {
+    const { files, environment, activePath, environmentVariables } = sandpack;
+
+    try {
+      const result = await exportProvider.export({
+        files,
+        environment,
+        activePath,
+        environmentVariables,
+      });
+
+      openExportResult(result);
+    } catch (error) {
+      console.warn(
+        `The sandbox could not be exported with "${exportProvider.name}"`,
+        error
+      );
+    }
+  };
+
+  const csbIconClass = isDarkColor(theme.palette.defaultBackground)
+    ? "csb-icon-dark"
+    : "csb-icon-light";
+
+  return (
+    <button
+      className={c(
+        "button",
+        "icon-standalone",
+        // The CodeSandbox logo needs to adapt its colors to the theme
+        ...(exportProvider.name === "codesandbox" ? [csbIconClass] : [])
+      )}
+      onClick={handleClick}
+      title={exportProvider.title}
+      type="button"
+    >
+      <Icon />
+    </button>
+  );
+};
@@ -0,0 +1,55 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { useShareableUrl } from "../hooks/useShareableUrl";
+import { CheckIcon, ShareIcon } from "../icons";
+
+const FEEDBACK_DURATION = 2000;
+
+export interface ShareButtonProps {
+  baseUrl?: string;
+  /**
+   * Longest URL to copy, the sandbox is exported with the `exportProvider` of the provider otherwise
+   */
+  maxLength?: number;
+}
+
+/**
+ * Copies a link to the sandbox as it is, see `useShareableUrl`
+ *
+ * @category Components
+ */
+export const ShareButton: React.FC<ShareButtonProps> = ({
+  baseUrl,
+  maxLength,
+}) => {
+  const { share } = useShareableUrl({ baseUrl, maxLength });
+  const [isCopied, setIsCopied] = React.useState(false);
+  const c = useClasser("sp");
+
+  React.useEffect(() => {
+    if (!isCopied) {
+      return;
+    }
+
+    const timeout = setTimeout(() => setIsCopied(false), FEEDBACK_DURATION);
+    return () => clearTimeout(timeout);
+  }, [isCopied]);
+
+  const handleClick = (): void => {
+    share()
+      .then((result) => setIsCopied(result === "copied"))
+      .catch((error) => console.warn("The sandbox could not be shared", error));
+  };
+
+  return (
+    <button
+      className={c("button", "icon-standalone")}
+      onClick={handleClick}
+      title={isCopied ? "Link copied" : "Copy link to the sandbox"}
+      type="button"
+    >
+      {isCopied ? <CheckIcon /> : <ShareIcon />}
+    </button>
+  );
+};
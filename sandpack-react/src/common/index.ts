@@ -1,5 +1,9 @@
 export * from "./Layout";
 export * from "./Stack";
+export * from "./DownloadButton";
 export * from "./ErrorOverlay";
 export * from "./LoadingOverlay";
+export * from "./Notifications";
+export * from "./OpenInButton";
 export * from "./OpenInCodeSandboxButton";
+export * from "./ShareButton";
@@ -0,0 +1,44 @@
+import { useClasser } from "@code-hike/classer";
+import type { SandpackBundlerFile } from "@codesandbox/sandpack-client";
+import * as React from "react";
+
+import { getBinaryFileURL } from "../../utils/fileUtils";
+import { getFileName } from "../../utils/stringUtils";
+
+/**
+ * Binary files can't be edited, images are previewed and other files only show their details
+ */
+export const BinaryFilePreview: React.FC<{
+  file: SandpackBundlerFile;
+  filePath: string;
+}> = ({ file, filePath }) => {
+  const c = useClasser("sp");
+  const fileName = getFileName(filePath);
+  // Every 4 base64 characters encode 3 bytes
+  const size = Math.floor((file.code.replace(/=+$/, "").length * 3) / 4);
+
+  return (
+    <div className={c("binary-preview")} translate="no">
+      {file.mimeType?.startsWith("image/") ? (
+        <img alt={fileName} src={getBinaryFileURL(file.code, file.mimeType)} />
+      ) : null}
+
+      <p>
+        {fileName} ({file.mimeType || "binary"}, {formatFileSize(size)}) can't
+        be displayed in the editor
+      </p>
+    </div>
+  );
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} kB`;
+  }
+
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -70,3 +70,27 @@ export const ClosableTabs: React.FC = () => (
     </SandpackThemeProvider>
   </SandpackProvider>
 );
+
+// 1x1 transparent png
+const PIXEL = Uint8Array.from(
+  atob(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="
+  ),
+  (char) => char.charCodeAt(0)
+);
+
+export const BinaryFiles: React.FC = () => (
+  <SandpackProvider
+    customSetup={{
+      files: {
+        "/pixel.png": { code: PIXEL, active: true },
+        "/data.bin": { code: "AAECAw==", isBinary: true },
+      },
+    }}
+    template="react"
+  >
+    <SandpackThemeProvider>
+      <SandpackCodeEditor />
+    </SandpackThemeProvider>
+  </SandpackProvider>
+);
@@ -10,7 +10,7 @@ import { commentKeymap } from "@codemirror/comment";
 import { lineNumbers } from "@codemirror/gutter";
 import { history, historyKeymap } from "@codemirror/history";
 import { bracketMatching } from "@codemirror/matchbrackets";
-import { EditorState } from "@codemirror/state";
+import { EditorState, StateEffect } from "@codemirror/state";
 import type { Annotation } from "@codemirror/state";
 import {
   highlightSpecialChars,
@@ -26,6 +26,7 @@ import { useSandpack } from "../../hooks/useSandpack";
 import { useSandpackTheme } from "../../hooks/useSandpackTheme";
 import type {
   EditorState as SandpackEditorState,
+  SandpackFilePosition,
   SandpackInitMode,
 } from "../../types";
 import { getFileName, generateRandomId } from "../../utils/stringUtils";
@@ -34,6 +35,7 @@ import { highlightDecorators } from "./highlightDecorators";
 import { highlightInlineError } from "./highlightInlineError";
 import {
   getCodeMirrorLanguage,
+  getClampedCodeMirrorPosition,
   getEditorTheme,
   getSyntaxHighlight,
   useCombinedRefs,
@@ -100,7 +102,7 @@ export const CodeMirror = React.forwardRef<CodeMirrorRef, CodeMirrorProps>(
     const { theme, themeId } = useSandpackTheme();
     const [internalCode, setInternalCode] = React.useState<string>(code);
     const c = useClasser("sp");
-    const { listen } = useSandpack();
+    const { listen, sandpack } = useSandpack();
     const ariaId = React.useRef<string>(generateRandomId());
 
     const { isIntersecting } = useIntersectionObserver(wrapper, {
@@ -208,10 +210,20 @@ export const CodeMirror = React.forwardRef<CodeMirrorRef, CodeMirrorProps>(
           extensions.push(highlightInlineError());
         }
 
-        const startState = EditorState.create({
-          doc: code,
-          extensions,
-        });
+        // The file was edited before, its history is kept unless the code changed since
+        const savedState =
+          filePath && !readOnly
+            ? sandpack.codeEditorStatesRef.current[filePath]
+            : undefined;
+        const startState =
+          savedState && savedState.doc.sliceString(0) === code
+            ? savedState.update({
+                effects: StateEffect.reconfigure.of(extensions),
+              }).state
+            : EditorState.create({
+                doc: code,
+                extensions,
+              });
 
         const parentDiv = wrapper.current;
 
@@ -240,9 +252,32 @@ export const CodeMirror = React.forwardRef<CodeMirrorRef, CodeMirrorProps>(
         }
 
         cmView.current = view;
+
+        // Errors reported before the file was opened, eg: switching to the package.json tab once it's broken
+        const { error } = sandpack;
+        if (showInlineErrors && error?.line && error.path === filePath) {
+          view.dispatch({
+            annotations: [
+              {
+                type: "error",
+                value: error.line,
+              } as unknown as Annotation<unknown>,
+            ],
+          });
+        }
+
+        // The file was opened at a given line, eg: from a frame of the error overlay
+        const { cursorPosition } = sandpack;
+        if (cursorPosition && cursorPosition.path === filePath) {
+          moveCursor(view, cursorPosition);
+        }
       }, 0);
 
       return () => {
+        if (cmView.current && filePath && !readOnly) {
+          sandpack.codeEditorStatesRef.current[filePath] = cmView.current.state;
+        }
+
         cmView.current?.destroy();
 
         clearTimeout(timer);
@@ -263,6 +298,17 @@ export const CodeMirror = React.forwardRef<CodeMirrorRef, CodeMirrorProps>(
       }
     }, []);
 
+    const { cursorPosition } = sandpack;
+    React.useEffect(() => {
+      if (
+        cmView.current &&
+        cursorPosition &&
+        cursorPosition.path === filePath
+      ) {
+        moveCursor(cmView.current, cursorPosition);
+      }
+    }, [cursorPosition, filePath]);
+
     // Update editor when code passed as prop from outside sandpack changes
     React.useEffect(() => {
       if (cmView.current && code !== internalCode) {
@@ -303,7 +349,8 @@ export const CodeMirror = React.forwardRef<CodeMirrorRef, CodeMirrorProps>(
           if (
             message.type === "action" &&
             message.action === "show-error" &&
-            "line" in message
+            "line" in message &&
+            (!message.path || !filePath || message.path === filePath)
           ) {
             view?.dispatch({
               annotations: [
@@ -318,7 +365,7 @@ export const CodeMirror = React.forwardRef<CodeMirrorRef, CodeMirrorProps>(
 
         return () => unsubscribe();
       },
-      [listen, showInlineErrors]
+      [listen, showInlineErrors, filePath]
     );
 
     const handleContainerKeyDown = (evt: React.KeyboardEvent) => {
@@ -383,3 +430,13 @@ export const CodeMirror = React.forwardRef<CodeMirrorRef, CodeMirrorProps>(
     );
   }
 );
+
+const moveCursor = (view: EditorView, position: SandpackFilePosition) => {
+  view.dispatch({
+    selection: {
+      anchor: getClampedCodeMirrorPosition(view.state.doc, position),
+    },
+    scrollIntoView: true,
+  });
+  view.focus();
+};
@@ -8,6 +8,7 @@ import { useSandpack } from "../../hooks/useSandpack";
 import type { SandpackInitMode } from "../../types";
 import { FileTabs } from "../FileTabs";
 
+import { BinaryFilePreview } from "./BinaryFilePreview";
 import { CodeMirror } from "./CodeMirror";
 import type { CodeMirrorRef } from "./CodeMirror";
 
@@ -54,6 +55,7 @@ export const SandpackCodeEditor = React.forwardRef<
     const { sandpack } = useSandpack();
     const { code, updateCode } = useActiveCode();
     const { activePath, status, editorState } = sandpack;
+    const activeFile = sandpack.files[activePath];
     const shouldShowTabs = showTabs ?? sandpack.openPaths.length > 1;
 
     const c = useClasser("sp");
@@ -67,18 +69,22 @@ export const SandpackCodeEditor = React.forwardRef<
         {shouldShowTabs ? <FileTabs closableTabs={closableTabs} /> : null}
 
         <div className={c("code-editor")}>
-          <CodeMirror
-            key={activePath}
-            ref={ref}
-            code={code}
-            editorState={editorState}
-            filePath={activePath}
-            initMode={initMode || sandpack.initMode}
-            onCodeUpdate={handleCodeUpdate}
-            showInlineErrors={showInlineErrors}
-            showLineNumbers={showLineNumbers}
-            wrapContent={wrapContent}
-          />
+          {activeFile?.isBinary ? (
+            <BinaryFilePreview file={activeFile} filePath={activePath} />
+          ) : (
+            <CodeMirror
+              key={activePath}
+              ref={ref}
+              code={code}
+              editorState={editorState}
+              filePath={activePath}
+              initMode={initMode || sandpack.initMode}
+              onCodeUpdate={handleCodeUpdate}
+              showInlineErrors={showInlineErrors}
+              showLineNumbers={showLineNumbers}
+              wrapContent={wrapContent}
+            />
+          )}
 
           {showRunButton && status === "idle" ? <RunButton /> : null}
         </div>
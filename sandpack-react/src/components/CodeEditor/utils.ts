@@ -20,6 +20,19 @@ export const getCodeMirrorPosition = (
   return doc.line(line).from + (column ?? 0) - 1;
 };
 
+/**
+ * Keeps the position inside the document, which could have changed since the
+ * position was taken (eg: the line of an error that was already fixed)
+ */
+export const getClampedCodeMirrorPosition = (
+  doc: Text,
+  { line, column = 1 }: { line: number; column?: number }
+): number => {
+  const docLine = doc.line(Math.min(Math.max(line, 1), doc.lines));
+
+  return Math.min(docLine.from + Math.max(column, 1) - 1, docLine.to);
+};
+
 export const getEditorTheme = (theme: SandpackTheme): Extension =>
   EditorView.theme({
     "&": {
@@ -8,6 +8,7 @@ import { useActiveCode } from "../../hooks/useActiveCode";
 import { useSandpack } from "../../hooks/useSandpack";
 import { CodeEditor } from "../CodeEditor";
 import type { CodeEditorRef } from "../CodeEditor";
+import { BinaryFilePreview } from "../CodeEditor/BinaryFilePreview";
 import type { Decorators } from "../CodeEditor/CodeMirror";
 import { FileTabs } from "../FileTabs";
 
@@ -44,22 +45,27 @@ export const SandpackCodeViewer = forwardRef<CodeEditorRef, CodeViewerProps>(
     const { sandpack } = useSandpack();
     const { code } = useActiveCode();
 
+    const activeFile = sandpack.files[sandpack.activePath];
     const shouldShowTabs = showTabs ?? sandpack.openPaths.length > 1;
 
     return (
       <SandpackStack>
         {shouldShowTabs ? <FileTabs /> : null}
 
-        <CodeEditor
-          ref={ref}
-          code={propCode ?? code}
-          decorators={decorators}
-          filePath={sandpack.activePath}
-          initMode={initMode || sandpack.initMode}
-          showLineNumbers={showLineNumbers}
-          wrapContent={wrapContent}
-          readOnly
-        />
+        {activeFile?.isBinary && propCode === undefined ? (
+          <BinaryFilePreview file={activeFile} filePath={sandpack.activePath} />
+        ) : (
+          <CodeEditor
+            ref={ref}
+            code={propCode ?? code}
+            decorators={decorators}
+            filePath={sandpack.activePath}
+            initMode={initMode || sandpack.initMode}
+            showLineNumbers={showLineNumbers}
+            wrapContent={wrapContent}
+            readOnly
+          />
+        )}
 
         {sandpack.status === "idle" ? <RunButton /> : null}
       </SandpackStack>
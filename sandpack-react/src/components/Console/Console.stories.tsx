@@ -0,0 +1,54 @@
+import React from "react";
+
+import { SandpackLayout } from "../../common/Layout";
+import { SandpackProvider } from "../../contexts/sandpackContext";
+import { SandpackCodeEditor } from "../CodeEditor";
+import { SandpackPreview } from "../Preview";
+
+import { SandpackConsole } from "./index";
+
+export default {
+  title: "components/Console",
+  component: SandpackConsole,
+};
+
+const code = `export default function App() {
+  console.log("Rendering App", { count: 1 });
+  console.warn("This is a warning");
+  console.error(new Error("Something went wrong"));
+
+  return <h1>Open the console below</h1>
+}`;
+
+export const Component: React.FC = () => (
+  <SandpackProvider
+    customSetup={{
+      files: {
+        "/App.js": code,
+      },
+    }}
+    template="react"
+  >
+    <SandpackLayout>
+      <SandpackCodeEditor />
+      <SandpackPreview />
+      <SandpackConsole />
+    </SandpackLayout>
+  </SandpackProvider>
+);
+
+export const FilteredByLevel: React.FC = () => (
+  <SandpackProvider
+    customSetup={{
+      files: {
+        "/App.js": code,
+      },
+    }}
+    template="react"
+  >
+    <SandpackLayout>
+      <SandpackPreview />
+      <SandpackConsole defaultFilter="error" />
+    </SandpackLayout>
+  </SandpackProvider>
+);
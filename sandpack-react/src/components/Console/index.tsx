@@ -0,0 +1,95 @@
+import { useClasser } from "@code-hike/classer";
+import type { SandpackConsoleLevel } from "@codesandbox/sandpack-client";
+import * as React from "react";
+
+import { SandpackStack } from "../../common/Stack";
+import { useSandpackConsole } from "../../hooks/useSandpackConsole";
+
+export type ConsoleFilter = SandpackConsoleLevel | "all";
+
+export interface ConsoleProps {
+  clientId?: string;
+  customStyle?: React.CSSProperties;
+  /**
+   * Level selected when the console mounts, it can be changed by the user
+   * through the filters in the console header
+   */
+  defaultFilter?: ConsoleFilter;
+  showHeader?: boolean;
+}
+
+const CONSOLE_FILTERS: ConsoleFilter[] = [
+  "all",
+  "log",
+  "info",
+  "warn",
+  "error",
+  "debug",
+];
+
+/**
+ * @category Components
+ */
+export const SandpackConsole: React.FC<ConsoleProps> = ({
+  clientId,
+  customStyle,
+  defaultFilter = "all",
+  showHeader = true,
+}) => {
+  const { logs, reset } = useSandpackConsole(clientId);
+  const [filter, setFilter] = React.useState<ConsoleFilter>(defaultFilter);
+  const c = useClasser("sp");
+
+  const visibleLogs =
+    filter === "all" ? logs : logs.filter(({ level }) => level === filter);
+
+  return (
+    <SandpackStack customStyle={customStyle}>
+      {showHeader ? (
+        <div className={c("tabs", "console-header")}>
+          <div
+            aria-label="Filter console messages"
+            className={c("tabs-scrollable-container")}
+            role="tablist"
+          >
+            {CONSOLE_FILTERS.map((consoleFilter) => (
+              <button
+                key={consoleFilter}
+                aria-selected={consoleFilter === filter}
+                className={c("tab-button")}
+                data-active={consoleFilter === filter}
+                onClick={() => setFilter(consoleFilter)}
+                role="tab"
+                type="button"
+              >
+                {consoleFilter}
+              </button>
+            ))}
+          </div>
+
+          <button
+            className={c("button")}
+            onClick={reset}
+            title="Clear console"
+            type="button"
+          >
+            Clear
+          </button>
+        </div>
+      ) : null}
+
+      <div aria-live="polite" className={c("console")} translate="no">
+        {visibleLogs.map(({ id, level, data, timestamp }) => (
+          <div
+            key={id}
+            className={c("console-entry")}
+            data-level={level}
+            title={new Date(timestamp).toLocaleTimeString()}
+          >
+            {data.join(" ")}
+          </div>
+        ))}
+      </div>
+    </SandpackStack>
+  );
+};
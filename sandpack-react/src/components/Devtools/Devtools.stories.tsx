@@ -0,0 +1,23 @@
+import React from "react";
+
+import { SandpackLayout } from "../../common/Layout";
+import { SandpackProvider } from "../../contexts/sandpackContext";
+import { SandpackCodeEditor } from "../CodeEditor";
+import { SandpackPreview } from "../Preview";
+
+import { SandpackDevtools } from "./index";
+
+export default {
+  title: "components/Devtools",
+  component: SandpackDevtools,
+};
+
+export const Component: React.FC = () => (
+  <SandpackProvider template="react">
+    <SandpackLayout>
+      <SandpackCodeEditor />
+      <SandpackPreview />
+      <SandpackDevtools />
+    </SandpackLayout>
+  </SandpackProvider>
+);
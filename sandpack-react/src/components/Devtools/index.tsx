@@ -0,0 +1,243 @@
+import { useClasser } from "@code-hike/classer";
+import type {
+  ClientStatus,
+  SandpackMessage,
+  SandpackRecordedMessage,
+  SandpackRecording,
+} from "@codesandbox/sandpack-client";
+import { parseRecording } from "@codesandbox/sandpack-client";
+import * as React from "react";
+
+import { SandpackStack } from "../../common/Stack";
+import { openExportResult } from "../../exportProviders";
+import { useSandpack } from "../../hooks/useSandpack";
+
+export interface DevtoolsProps {
+  /**
+   * Client to inspect, the first one registered in the provider by default
+   */
+  clientId?: string;
+  customStyle?: React.CSSProperties;
+}
+
+const getMessageLabel = (message: SandpackMessage): string => {
+  const { type, action, status, event } = message as unknown as Record<
+    string,
+    unknown
+  >;
+
+  return [type, action ?? status ?? event].filter(Boolean).join(" · ");
+};
+
+/**
+ * Timeline of the messages between a client and its bundler, to debug a preview
+ * that is stuck or a bundler that doesn't behave as expected
+ *
+ * @category Components
+ */
+export const SandpackDevtools: React.FC<DevtoolsProps> = ({
+  clientId,
+  customStyle,
+}) => {
+  const { sandpack, listen } = useSandpack();
+  const c = useClasser("sp");
+
+  const currentClientId = clientId ?? Object.keys(sandpack.clients)[0];
+  const client = currentClientId ? sandpack.clients[currentClientId] : null;
+
+  const [recording, setRecording] = React.useState<SandpackRecording | null>(
+    null
+  );
+  const [entries, setEntries] = React.useState<SandpackRecordedMessage[]>([]);
+  const [isRecording, setIsRecording] = React.useState(false);
+  const [isReplaying, setIsReplaying] = React.useState(false);
+  const [status, setStatus] = React.useState<ClientStatus | null>(null);
+  const [importError, setImportError] = React.useState<string | null>(null);
+  const replayController = React.useRef<AbortController | null>(null);
+
+  React.useEffect(() => {
+    setStatus(client?.status ?? null);
+
+    const unsub = listen((message) => {
+      if (message.type === "status") {
+        setStatus(message.status);
+      }
+    }, currentClientId);
+
+    return () => unsub();
+  }, [listen, client, currentClientId]);
+
+  React.useEffect(
+    () => () => {
+      replayController.current?.abort();
+      client?.stopRecording();
+    },
+    [client]
+  );
+
+  const startRecording = () => {
+    if (!client) {
+      return;
+    }
+
+    setEntries([]);
+    setImportError(null);
+    client.startRecording((entry) => setEntries((prev) => [...prev, entry]));
+    setRecording(client.recording);
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    setRecording(client?.stopRecording() ?? null);
+    setIsRecording(false);
+  };
+
+  const exportRecording = () => {
+    if (!recording) {
+      return;
+    }
+
+    openExportResult({
+      type: "download",
+      fileName: "sandpack-recording.json",
+      content: new Blob([JSON.stringify(recording, null, 2)], {
+        type: "application/json",
+      }),
+    });
+  };
+
+  const importRecording = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const importedRecording = parseRecording(await file.text());
+
+      setRecording(importedRecording);
+      setEntries(importedRecording.messages);
+      setImportError(null);
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  };
+
+  const replayRecording = () => {
+    if (!client || !recording) {
+      return;
+    }
+
+    replayController.current = new AbortController();
+    setIsReplaying(true);
+
+    client
+      .replayRecording(recording, { signal: replayController.current.signal })
+      .catch((error) => console.warn(error))
+      .then(() => setIsReplaying(false));
+  };
+
+  const bundlerState = client?.bundlerState;
+
+  return (
+    <SandpackStack customStyle={customStyle}>
+      <div className={c("tabs", "devtools-header")}>
+        <span className={c("devtools-status")}>
+          {client
+            ? `${currentClientId}: ${status ?? "initializing"}`
+            : "No client is running"}
+        </span>
+
+        <div className={c("devtools-actions")}>
+          <button
+            className={c("button")}
+            disabled={!client || isReplaying}
+            onClick={isRecording ? stopRecording : startRecording}
+            type="button"
+          >
+            {isRecording ? "Stop" : "Record"}
+          </button>
+          <button
+            className={c("button")}
+            disabled={!client || !recording || isRecording || isReplaying}
+            onClick={replayRecording}
+            type="button"
+          >
+            Replay
+          </button>
+          <button
+            className={c("button")}
+            disabled={!recording || isRecording}
+            onClick={exportRecording}
+            type="button"
+          >
+            Export
+          </button>
+          <label className={c("button")}>
+            Import
+            <input
+              accept="application/json"
+              disabled={isRecording}
+              onChange={importRecording}
+              style={{ display: "none" }}
+              type="file"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className={c("devtools")} translate="no">
+        {importError ? (
+          <div className={c("devtools-error")}>{importError}</div>
+        ) : null}
+
+        <ol className={c("devtools-timeline")}>
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className={c("devtools-entry")}
+              data-direction={entry.direction}
+            >
+              <details>
+                <summary>
+                  <span className={c("devtools-time")}>
+                    +{entry.timestamp - (recording?.startTime ?? 0)}ms
+                  </span>
+                  <span aria-label={entry.direction}>
+                    {entry.direction === "outgoing" ? "↑" : "↓"}
+                  </span>{" "}
+                  {getMessageLabel(entry.message)}
+                </summary>
+                <pre>{JSON.stringify(entry.message, null, 2)}</pre>
+              </details>
+            </li>
+          ))}
+        </ol>
+
+        {bundlerState ? (
+          <details className={c("devtools-bundler-state")}>
+            <summary>
+              Bundler state: {bundlerState.entry},{" "}
+              {Object.keys(bundlerState.transpiledModules).length} modules
+            </summary>
+            <pre>
+              {JSON.stringify(
+                {
+                  entry: bundlerState.entry,
+                  transpiledModules: Object.keys(
+                    bundlerState.transpiledModules
+                  ),
+                },
+                null,
+                2
+              )}
+            </pre>
+          </details>
+        ) : null}
+      </div>
+    </SandpackStack>
+  );
+};
@@ -0,0 +1,87 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+export interface ContextMenuItem {
+  label: string;
+  onSelect: () => void;
+}
+
+interface ContextMenuProps {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+export const ContextMenu: React.FC<ContextMenuProps> = ({
+  x,
+  y,
+  items,
+  onClose,
+}) => {
+  const c = useClasser("sp");
+  const menuRef = React.useRef<HTMLUListElement>(null);
+  // The latest callback, without opening the menu again on every render
+  const onCloseRef = React.useRef(onClose);
+  onCloseRef.current = onClose;
+
+  React.useEffect(() => {
+    menuRef.current?.querySelector("button")?.focus();
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        onCloseRef.current();
+      }
+    };
+
+    document.addEventListener("mousedown", handleMouseDown);
+
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const buttons = Array.from(
+      menuRef.current?.querySelectorAll("button") ?? []
+    );
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      const offset = event.key === "ArrowDown" ? 1 : -1;
+      buttons[(index + offset + buttons.length) % buttons.length]?.focus();
+    } else if (event.key === "Escape" || event.key === "Tab") {
+      onClose();
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  return (
+    <ul
+      ref={menuRef}
+      className={c("file-explorer-menu")}
+      onKeyDown={handleKeyDown}
+      role="menu"
+      style={{ left: x, top: y }}
+    >
+      {items.map(({ label, onSelect }) => (
+        <li key={label} role="none">
+          <button
+            className={c("button")}
+            onClick={() => {
+              onClose();
+              onSelect();
+            }}
+            role="menuitem"
+            tabIndex={-1}
+            type="button"
+          >
+            {label}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
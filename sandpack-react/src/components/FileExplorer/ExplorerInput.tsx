@@ -0,0 +1,81 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+interface ExplorerInputProps {
+  label: string;
+  defaultValue?: string;
+  /**
+   * Returns whether the value was valid, the input stays until then
+   */
+  onCommit: (value: string) => boolean;
+  onCancel: () => void;
+}
+
+/**
+ * Name of a new file or directory, or the new name of an existing one. Leaving
+ * the input commits the value, and Escape cancels it
+ */
+export const ExplorerInput: React.FC<ExplorerInputProps> = ({
+  label,
+  defaultValue = "",
+  onCommit,
+  onCancel,
+}) => {
+  const c = useClasser("sp");
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  // Blur also happens once the input is removed after Enter or Escape
+  const isDone = React.useRef(false);
+
+  React.useEffect(() => {
+    const input = inputRef.current;
+    if (!input) {
+      return;
+    }
+
+    // The name is selected without the extension, which is usually kept
+    const indexOfExtension = defaultValue.lastIndexOf(".");
+    input.focus();
+    input.setSelectionRange(
+      0,
+      indexOfExtension > 0 ? indexOfExtension : defaultValue.length
+    );
+  }, [defaultValue]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    event.stopPropagation();
+
+    if (event.key === "Enter") {
+      event.preventDefault();
+      isDone.current = onCommit(event.currentTarget.value);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      isDone.current = true;
+      onCancel();
+    }
+  };
+
+  const handleBlur = (event: React.FocusEvent<HTMLInputElement>) => {
+    if (isDone.current) {
+      return;
+    }
+
+    isDone.current = true;
+    if (!onCommit(event.currentTarget.value)) {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      aria-label={label}
+      className={c("file-explorer-input")}
+      defaultValue={defaultValue}
+      onBlur={handleBlur}
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={handleKeyDown}
+      spellCheck={false}
+      type="text"
+    />
+  );
+};
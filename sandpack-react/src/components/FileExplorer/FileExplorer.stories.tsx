@@ -44,3 +44,35 @@ export const Component: React.FC = () => (
     </SandpackProvider>
   </>
 );
+
+export const Interactive: React.FC = () => (
+  <SandpackProvider
+    customSetup={{
+      entry: "/index.js",
+      files: {
+        "/index.js": `import "./src/styles.css";
+import { greet } from "./src/utils/greet";
+
+document.getElementById("app").innerHTML = greet("World");`,
+        "/index.html": `<div id="app"></div>`,
+        "/src/styles.css": "body { font-family: sans-serif; }",
+        "/src/utils/greet.js": `export const greet = (name) => "<h1>Hello " + name + "</h1>";`,
+        "/.env": "GREETING=Hello",
+      },
+    }}
+  >
+    <SandpackLayout>
+      <FileExplorer initialCollapsedDirectories={["/src/utils/"]} />
+      <SandpackCodeEditor closableTabs showTabs />
+    </SandpackLayout>
+  </SandpackProvider>
+);
+
+export const ReadOnly: React.FC = () => (
+  <SandpackProvider template="react">
+    <SandpackLayout>
+      <FileExplorer readOnly showHiddenFiles />
+      <SandpackCodeEditor />
+    </SandpackLayout>
+  </SandpackProvider>
+);
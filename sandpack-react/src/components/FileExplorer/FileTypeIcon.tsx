@@ -0,0 +1,53 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { FileIcon } from "../../icons";
+
+const FILE_TYPES: Record<string, { type: string; label: string }> = {
+  js: { type: "js", label: "JS" },
+  jsx: { type: "js", label: "JS" },
+  mjs: { type: "js", label: "JS" },
+  cjs: { type: "js", label: "JS" },
+  ts: { type: "ts", label: "TS" },
+  tsx: { type: "ts", label: "TS" },
+  css: { type: "css", label: "#" },
+  scss: { type: "css", label: "#" },
+  sass: { type: "css", label: "#" },
+  less: { type: "css", label: "#" },
+  html: { type: "html", label: "<>" },
+  json: { type: "json", label: "{}" },
+  md: { type: "markdown", label: "M↓" },
+  vue: { type: "vue", label: "V" },
+  svelte: { type: "svelte", label: "S" },
+  png: { type: "image", label: "IMG" },
+  jpg: { type: "image", label: "IMG" },
+  jpeg: { type: "image", label: "IMG" },
+  gif: { type: "image", label: "IMG" },
+  webp: { type: "image", label: "IMG" },
+  avif: { type: "image", label: "IMG" },
+  svg: { type: "image", label: "SVG" },
+};
+
+/**
+ * Badge of the type of a file, by its extension, or the generic file icon
+ */
+export const FileTypeIcon: React.FC<{ path: string }> = ({ path }) => {
+  const c = useClasser("sp");
+  const fileName = path.slice(path.lastIndexOf("/") + 1);
+  const extension = fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+  const fileType = fileName.includes(".") ? FILE_TYPES[extension] : undefined;
+
+  if (!fileType) {
+    return <FileIcon />;
+  }
+
+  return (
+    <span
+      aria-hidden="true"
+      className={c("file-type-icon")}
+      data-type={fileType.type}
+    >
+      {fileType.label}
+    </span>
+  );
+};
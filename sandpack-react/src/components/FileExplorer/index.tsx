@@ -1,24 +1,591 @@
+import { useClasser } from "@code-hike/classer";
 import * as React from "react";
 
+import { SandpackStack } from "../../common/Stack";
 import { useSandpack } from "../../hooks/useSandpack";
+import { DirectoryIcon } from "../../icons";
 
-import { ModuleList } from "./ModuleList";
+import { ContextMenu } from "./ContextMenu";
+import type { ContextMenuItem } from "./ContextMenu";
+import { ExplorerInput } from "./ExplorerInput";
+import { FileTypeIcon } from "./FileTypeIcon";
+import {
+  getAncestorDirectories,
+  getDuplicatePath,
+  getExplorerItems,
+  getParentDirectory,
+} from "./utils";
+import type { ExplorerItem } from "./utils";
+
+export interface FileExplorerProps {
+  customStyle?: React.CSSProperties;
+  /**
+   * Lists the files and directories whose name starts with a dot, eg: `.env`.
+   * It can be toggled from the header of the explorer as well
+   */
+  showHiddenFiles?: boolean;
+  /**
+   * Directories that start collapsed, eg: `["/src/components/"]`
+   */
+  initialCollapsedDirectories?: string[];
+  /**
+   * Files can only be opened: they can't be created, renamed, moved or deleted
+   */
+  readOnly?: boolean;
+}
+
+type EditingState =
+  | { type: "rename"; path: string }
+  | { type: "file" | "directory"; directory: string };
+
+interface MenuState {
+  item: ExplorerItem | null;
+  x: number;
+  y: number;
+}
+
+// Narrower than the editor next to it in a `SandpackLayout`
+const DEFAULT_STYLE: React.CSSProperties = {
+  flexGrow: 0,
+  flexBasis: 200,
+  minWidth: 160,
+};
+
+const getIndentation = (depth: number): string => `${8 * (depth + 1)}px`;
+
+// Where the new files go, and the files dropped on an item are moved to
+const getItemDirectory = (item: ExplorerItem | null): string =>
+  item ? (item.isDirectory ? item.path : item.parent) : "/";
 
-// WIP
 /**
+ * Tree of the files and directories of the sandbox. Besides opening the files, they
+ * can be created, renamed, duplicated, deleted, and moved by dragging them, from
+ * the context menu or the keyboard (F2 renames, Delete deletes)
+ *
  * @category Components
  */
-export const FileExplorer: React.FC = () => {
+export const FileExplorer: React.FC<FileExplorerProps> = ({
+  customStyle,
+  showHiddenFiles = false,
+  initialCollapsedDirectories = [],
+  readOnly = false,
+}) => {
   const { sandpack } = useSandpack();
+  const c = useClasser("sp");
+  const { activePath, files, fileResolverPaths, directories } = sandpack;
+
+  const [collapsedDirectories, setCollapsedDirectories] = React.useState(
+    initialCollapsedDirectories
+  );
+  // The directories that are only in the file resolver start collapsed, they are listed once expanded
+  const [expandedResolverDirectories, setExpandedResolverDirectories] =
+    React.useState<string[]>([]);
+  const [isShowingHiddenFiles, setIsShowingHiddenFiles] =
+    React.useState(showHiddenFiles);
+  const [focusedPath, setFocusedPath] = React.useState<string | null>(null);
+  const [editing, setEditing] = React.useState<EditingState | null>(null);
+  const [menu, setMenu] = React.useState<MenuState | null>(null);
+  const [draggedPath, setDraggedPath] = React.useState<string | null>(null);
+  const [dropDirectory, setDropDirectory] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const treeRef = React.useRef<HTMLUListElement>(null);
+  // Only set by the keyboard, the focus follows the tree items
+  const shouldFocusItem = React.useRef(false);
+
+  // Only the paths are listed, so the files that were never read from the resolver are listed too
+  const paths = React.useMemo(
+    () => Array.from(new Set([...Object.keys(files), ...fileResolverPaths])),
+    [files, fileResolverPaths]
+  );
+  const sandboxDirectories = React.useMemo(
+    () =>
+      new Set(
+        [...Object.keys(files), ...directories].reduce(
+          (acc: string[], path) => acc.concat(getAncestorDirectories(path)),
+          directories
+        )
+      ),
+    [files, directories]
+  );
+  const isCollapsed = React.useCallback(
+    (directory: string): boolean =>
+      collapsedDirectories.includes(directory) ||
+      (!sandboxDirectories.has(directory) &&
+        !expandedResolverDirectories.includes(directory)),
+    [collapsedDirectories, sandboxDirectories, expandedResolverDirectories]
+  );
+  const items = React.useMemo(
+    () =>
+      getExplorerItems(paths, directories, isCollapsed, isShowingHiddenFiles),
+    [paths, directories, isCollapsed, isShowingHiddenFiles]
+  );
+
+  // The content of the open directories is read from the file resolver as they are shown
+  const { listFileResolverDirectory } = sandpack;
+  React.useEffect(() => {
+    items.forEach((item) => {
+      if (item.isOpen) {
+        listFileResolverDirectory(item.path);
+      }
+    });
+  }, [items, listFileResolverDirectory]);
+
+  const hasItem = (path: string | null): boolean =>
+    items.some((item) => item.path === path);
+  const currentPath = hasItem(focusedPath)
+    ? focusedPath
+    : hasItem(activePath)
+    ? activePath
+    : items[0]?.path ?? null;
+  const currentIndex = items.findIndex((item) => item.path === currentPath);
+
+  React.useEffect(() => {
+    if (!shouldFocusItem.current || editing || menu || !currentPath) {
+      return;
+    }
+
+    shouldFocusItem.current = false;
+    treeRef.current
+      ?.querySelector<HTMLElement>(`[data-path="${CSS.escape(currentPath)}"]`)
+      ?.focus();
+  });
+
+  const focusItem = (path: string) => {
+    shouldFocusItem.current = true;
+    setFocusedPath(path);
+  };
+
+  /**
+   * The operations of the provider throw when they can't be made, eg: the name
+   * is already taken. The error is shown until the next operation
+   */
+  const runOperation = (operation: () => void): boolean => {
+    try {
+      operation();
+      setError(null);
+      return true;
+    } catch (operationError) {
+      setError((operationError as Error).message);
+      return false;
+    }
+  };
+
+  const expandDirectory = (path: string) => {
+    setCollapsedDirectories((prev) => prev.filter((item) => item !== path));
+    setExpandedResolverDirectories((prev) =>
+      prev.includes(path) ? prev : [...prev, path]
+    );
+  };
+
+  const toggleDirectory = (path: string) => {
+    if (isCollapsed(path)) {
+      expandDirectory(path);
+    } else {
+      setCollapsedDirectories((prev) => [...prev, path]);
+    }
+  };
+
+  const selectItem = (item: ExplorerItem) => {
+    setFocusedPath(item.path);
+
+    if (item.isDirectory) {
+      toggleDirectory(item.path);
+    } else {
+      sandpack.openFile(item.path);
+    }
+  };
+
+  const startCreating = (type: "file" | "directory", directory: string) => {
+    expandDirectory(directory);
+    setEditing({ type, directory });
+  };
+
+  const deleteItem = (item: ExplorerItem) => {
+    runOperation(() =>
+      item.isDirectory
+        ? sandpack.deleteDirectory(item.path)
+        : sandpack.deleteFile(item.path)
+    );
+    const previousItem = items[currentIndex - 1] ?? items[0];
+    if (previousItem) {
+      focusItem(previousItem.path);
+    }
+  };
+
+  const duplicateFile = (path: string) => {
+    const duplicatePath = getDuplicatePath(path, (copy) =>
+      paths.includes(copy)
+    );
+
+    if (
+      runOperation(() => sandpack.createFile(duplicatePath, files[path].code))
+    ) {
+      focusItem(duplicatePath);
+    }
+  };
+
+  const commitEditing = (value: string): boolean => {
+    const name = value.trim();
+    if (!editing || !name) {
+      setEditing(null);
+      return true;
+    }
+
+    const newPath =
+      editing.type === "rename"
+        ? `${getParentDirectory(editing.path)}${name}${
+            editing.path.endsWith("/") ? "/" : ""
+          }`
+        : `${editing.directory}${name}${
+            editing.type === "directory" ? "/" : ""
+          }`;
+
+    const isCommitted = runOperation(() => {
+      if (editing.type === "rename") {
+        sandpack.renameFile(editing.path, name);
+      } else if (editing.type === "file") {
+        sandpack.createFile(newPath);
+      } else {
+        sandpack.createDirectory(newPath);
+      }
+    });
+
+    if (isCommitted) {
+      setEditing(null);
+      focusItem(newPath);
+    }
+
+    return isCommitted;
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    shouldFocusItem.current = true;
+  };
+
+  const getMenuItems = (item: ExplorerItem | null): ContextMenuItem[] => {
+    const directory = getItemDirectory(item);
+    const menuItems = [
+      {
+        label: "New file",
+        onSelect: () => startCreating("file", directory),
+      },
+      {
+        label: "New folder",
+        onSelect: () => startCreating("directory", directory),
+      },
+    ];
+
+    if (!item) {
+      return menuItems;
+    }
+
+    menuItems.push({
+      label: "Rename",
+      onSelect: () => setEditing({ type: "rename", path: item.path }),
+    });
+
+    // The copy is created from the code, which binary files don't have
+    const file = files[item.path];
+    if (file && !file.isBinary) {
+      menuItems.push({
+        label: "Duplicate",
+        onSelect: () => duplicateFile(item.path),
+      });
+    }
+
+    menuItems.push({ label: "Delete", onSelect: () => deleteItem(item) });
+
+    return menuItems;
+  };
+
+  const openMenu = (
+    event: React.MouseEvent<HTMLElement>,
+    item: ExplorerItem | null
+  ) => {
+    event.stopPropagation();
+    if (readOnly) {
+      return;
+    }
+
+    event.preventDefault();
+    if (item) {
+      setFocusedPath(item.path);
+    }
+    setMenu({ item, x: event.clientX, y: event.clientY });
+  };
+
+  const closeMenu = () => {
+    setMenu(null);
+    shouldFocusItem.current = true;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLUListElement>) => {
+    const item = items[currentIndex];
+    if (!item || editing) {
+      return;
+    }
+
+    const nextItem = items[currentIndex + 1];
+
+    switch (event.key) {
+      case "ArrowDown":
+        focusItem(nextItem?.path ?? item.path);
+        break;
+      case "ArrowUp":
+        focusItem(items[currentIndex - 1]?.path ?? item.path);
+        break;
+      case "Home":
+        focusItem(items[0].path);
+        break;
+      case "End":
+        focusItem(items[items.length - 1].path);
+        break;
+      case "ArrowRight":
+        if (item.isDirectory && !item.isOpen) {
+          toggleDirectory(item.path);
+        } else if (item.isDirectory && nextItem?.parent === item.path) {
+          focusItem(nextItem.path);
+        }
+        break;
+      case "ArrowLeft":
+        if (item.isDirectory && item.isOpen) {
+          toggleDirectory(item.path);
+        } else if (item.parent !== "/") {
+          focusItem(item.parent);
+        }
+        break;
+      case "Enter":
+      case " ":
+        selectItem(item);
+        break;
+      case "F2":
+        if (!readOnly) {
+          setEditing({ type: "rename", path: item.path });
+        }
+        break;
+      case "Delete":
+        if (!readOnly) {
+          deleteItem(item);
+        }
+        break;
+      case "ContextMenu":
+      case "F10": {
+        if (readOnly || (event.key === "F10" && !event.shiftKey)) {
+          return;
+        }
+
+        const rect = (event.target as HTMLElement).getBoundingClientRect();
+        setMenu({ item, x: rect.left + 16, y: rect.bottom });
+        break;
+      }
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  };
+
+  const canDrop = (directory: string): boolean =>
+    !!draggedPath &&
+    getParentDirectory(draggedPath) !== directory &&
+    !(draggedPath.endsWith("/") && directory.startsWith(draggedPath));
+
+  const handleDragOver = (
+    event: React.DragEvent<HTMLElement>,
+    item: ExplorerItem | null
+  ) => {
+    event.stopPropagation();
+
+    const directory = getItemDirectory(item);
+    if (!canDrop(directory)) {
+      setDropDirectory(null);
+      return;
+    }
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropDirectory(directory);
+  };
+
+  const handleDrop = (
+    event: React.DragEvent<HTMLElement>,
+    item: ExplorerItem | null
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const directory = getItemDirectory(item);
+    if (draggedPath && canDrop(directory)) {
+      runOperation(() => sandpack.moveFile(draggedPath, directory));
+    }
+
+    setDraggedPath(null);
+    setDropDirectory(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedPath(null);
+    setDropDirectory(null);
+  };
+
+  const renderNewItemInput = (depth: number) =>
+    editing && editing.type !== "rename" ? (
+      <li
+        className={c("file-explorer-item")}
+        role="none"
+        style={{ paddingLeft: getIndentation(depth) }}
+      >
+        {editing.type === "directory" ? (
+          <DirectoryIcon />
+        ) : (
+          <FileTypeIcon path="" />
+        )}
+        <ExplorerInput
+          label={editing.type === "directory" ? "Folder name" : "File name"}
+          onCancel={cancelEditing}
+          onCommit={commitEditing}
+        />
+      </li>
+    ) : null;
+
+  const newItemDirectory =
+    editing && editing.type !== "rename" ? editing.directory : null;
 
   return (
-    <div>
-      <ModuleList
-        activePath={sandpack.activePath}
-        files={sandpack.files}
-        prefixedPath="/"
-        selectFile={sandpack.openFile}
-      />
-    </div>
+    <SandpackStack customStyle={{ ...DEFAULT_STYLE, ...customStyle }}>
+      <div className={c("tabs", "file-explorer-header")}>
+        <span className={c("file-explorer-title")}>Files</span>
+
+        <div className={c("file-explorer-actions")}>
+          {readOnly ? null : (
+            <>
+              <button
+                className={c("button")}
+                onClick={() =>
+                  startCreating(
+                    "file",
+                    getItemDirectory(items[currentIndex] ?? null)
+                  )
+                }
+                title="New file"
+                type="button"
+              >
+                + File
+              </button>
+              <button
+                className={c("button")}
+                onClick={() =>
+                  startCreating(
+                    "directory",
+                    getItemDirectory(items[currentIndex] ?? null)
+                  )
+                }
+                title="New folder"
+                type="button"
+              >
+                + Folder
+              </button>
+            </>
+          )}
+          <button
+            aria-pressed={isShowingHiddenFiles}
+            className={c("button")}
+            onClick={() => setIsShowingHiddenFiles((prev) => !prev)}
+            title={
+              isShowingHiddenFiles ? "Hide hidden files" : "Show hidden files"
+            }
+            type="button"
+          >
+            .*
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className={c("file-explorer-error")} role="alert">
+          {error}
+        </div>
+      ) : null}
+
+      <ul
+        ref={treeRef}
+        aria-label="Files"
+        className={c("file-explorer")}
+        data-drop-target={dropDirectory === "/"}
+        onContextMenu={(event) => openMenu(event, null)}
+        onDragOver={(event) => handleDragOver(event, null)}
+        onDrop={(event) => handleDrop(event, null)}
+        onKeyDown={handleKeyDown}
+        role="tree"
+        translate="no"
+      >
+        {newItemDirectory === "/" ? renderNewItemInput(0) : null}
+
+        {items.map((item) => {
+          const isRenaming =
+            editing?.type === "rename" && editing.path === item.path;
+
+          return (
+            <React.Fragment key={item.path}>
+              <li
+                aria-expanded={item.isDirectory ? item.isOpen : undefined}
+                aria-level={item.depth + 1}
+                aria-selected={item.path === activePath}
+                className={c("file-explorer-item")}
+                data-active={item.path === activePath}
+                data-drop-target={dropDirectory === item.path}
+                data-path={item.path}
+                draggable={!readOnly && !isRenaming}
+                onClick={() => selectItem(item)}
+                onContextMenu={(event) => openMenu(event, item)}
+                onDragEnd={handleDragEnd}
+                onDragOver={(event) => handleDragOver(event, item)}
+                onDragStart={(event) => {
+                  event.dataTransfer.effectAllowed = "move";
+                  event.dataTransfer.setData("text/plain", item.path);
+                  setDraggedPath(item.path);
+                }}
+                onDrop={(event) => handleDrop(event, item)}
+                onFocus={() => setFocusedPath(item.path)}
+                role="treeitem"
+                style={{ paddingLeft: getIndentation(item.depth) }}
+                tabIndex={item.path === currentPath ? 0 : -1}
+                title={item.path}
+              >
+                {item.isDirectory ? (
+                  <DirectoryIcon isOpen={item.isOpen} />
+                ) : (
+                  <FileTypeIcon path={item.path} />
+                )}
+                {isRenaming ? (
+                  <ExplorerInput
+                    defaultValue={item.name}
+                    label={`New name of ${item.name}`}
+                    onCancel={cancelEditing}
+                    onCommit={commitEditing}
+                  />
+                ) : (
+                  <span className={c("file-explorer-name")}>{item.name}</span>
+                )}
+              </li>
+
+              {newItemDirectory === item.path
+                ? renderNewItemInput(item.depth + 1)
+                : null}
+            </React.Fragment>
+          );
+        })}
+      </ul>
+
+      {menu ? (
+        <ContextMenu
+          items={getMenuItems(menu.item)}
+          onClose={closeMenu}
+          x={menu.x}
+          y={menu.y}
+        />
+      ) : null}
+    </SandpackStack>
   );
 };
@@ -0,0 +1,119 @@
+import { getFileName } from "../../utils/stringUtils";
+
+export interface ExplorerItem {
+  /**
+   * Directories end with a `/`, eg: `/src/components/`
+   */
+  path: string;
+  name: string;
+  parent: string;
+  depth: number;
+  isDirectory: boolean;
+  isOpen: boolean;
+}
+
+export const getParentDirectory = (path: string): string =>
+  path.slice(0, path.lastIndexOf("/", path.length - 2) + 1);
+
+/**
+ * Every directory the path is in, up to the root, eg: `/src/`, `/` for `/src/index.js`
+ */
+export const getAncestorDirectories = (path: string): string[] => {
+  const parent = getParentDirectory(path);
+
+  return parent && parent !== path
+    ? [parent, ...getAncestorDirectories(parent)]
+    : [];
+};
+
+const getItemName = (path: string): string =>
+  path.split("/").filter(Boolean).pop() ?? path;
+
+// Dotfiles, or any file inside a directory that starts with a dot
+export const isHiddenPath = (path: string): boolean =>
+  path.split("/").some((segment) => segment.startsWith("."));
+
+const compareItems = (path: string, otherPath: string): number => {
+  const isDirectory = path.endsWith("/");
+  if (isDirectory !== otherPath.endsWith("/")) {
+    return isDirectory ? -1 : 1;
+  }
+
+  return getItemName(path).localeCompare(getItemName(otherPath));
+};
+
+/**
+ * Rows of the tree in the order they are shown: directories before files, both
+ * sorted by name. The content of the collapsed directories is left out
+ */
+export const getExplorerItems = (
+  paths: string[],
+  directories: string[],
+  isCollapsed: (directory: string) => boolean,
+  showHiddenFiles: boolean
+): ExplorerItem[] => {
+  const children: Record<string, Set<string>> = {};
+  const addPath = (path: string): void => {
+    const parent = getParentDirectory(path);
+    children[parent] = children[parent] ?? new Set();
+    children[parent].add(path);
+
+    if (parent !== "/") {
+      addPath(parent);
+    }
+  };
+
+  [...paths, ...directories]
+    .filter((path) => showHiddenFiles || !isHiddenPath(path))
+    .forEach(addPath);
+
+  const items: ExplorerItem[] = [];
+  const addChildren = (directory: string, depth: number): void => {
+    Array.from(children[directory] ?? [])
+      .sort(compareItems)
+      .forEach((path) => {
+        const isDirectory = path.endsWith("/");
+        const isOpen = isDirectory && !isCollapsed(path);
+
+        items.push({
+          path,
+          name: getItemName(path),
+          parent: directory,
+          depth,
+          isDirectory,
+          isOpen,
+        });
+
+        if (isOpen) {
+          addChildren(path, depth + 1);
+        }
+      });
+  };
+
+  addChildren("/", 0);
+
+  return items;
+};
+
+/**
+ * Path of a copy of the file in the same directory, eg: `/App copy.js`, then `/App copy 2.js`
+ */
+export const getDuplicatePath = (
+  path: string,
+  exists: (path: string) => boolean
+): string => {
+  const name = getFileName(path);
+  const directory = path.slice(0, path.length - name.length);
+  const indexOfExtension = name.lastIndexOf(".");
+  const [baseName, extension] =
+    indexOfExtension > 0
+      ? [name.slice(0, indexOfExtension), name.slice(indexOfExtension)]
+      : [name, ""];
+
+  let duplicatePath = `${directory}${baseName} copy${extension}`;
+  for (let copy = 2; exists(duplicatePath); copy++) {
+    duplicatePath = `${directory}${baseName} copy ${copy}${extension}`;
+  }
+
+  return duplicatePath;
+};
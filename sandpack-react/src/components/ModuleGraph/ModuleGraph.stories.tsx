@@ -0,0 +1,49 @@
+import React from "react";
+
+import { SandpackLayout } from "../../common/Layout";
+import { SandpackProvider } from "../../contexts/sandpackContext";
+import { SandpackCodeEditor } from "../CodeEditor";
+import { SandpackPreview } from "../Preview";
+
+import { SandpackModuleGraph } from "./index";
+
+export default {
+  title: "components/Module Graph",
+  component: SandpackModuleGraph,
+};
+
+const files = {
+  "/App.js": `import { Header } from "./Header";
+import { List } from "./List";
+
+export default function App() {
+  return (
+    <>
+      <Header />
+      <List />
+    </>
+  );
+}`,
+  "/Header.js": `import { Title } from "./Title";
+
+export const Header = () => <Title>Module graph</Title>;`,
+  "/Title.js": `export const Title = ({ children }) => <h1>{children}</h1>;`,
+  "/List.js": `import { Item } from "./Item";
+
+export const List = () => <ul><Item /></ul>;`,
+  "/Item.js": `import { List } from "./List";
+
+// Imports the list back, to show how cycles are drawn
+export const Item = () => <li>{typeof List}</li>;`,
+  "/Unused.js": `export const Unused = () => null;`,
+};
+
+export const Component: React.FC = () => (
+  <SandpackProvider customSetup={{ files }} template="react">
+    <SandpackLayout>
+      <SandpackCodeEditor />
+      <SandpackPreview />
+      <SandpackModuleGraph />
+    </SandpackLayout>
+  </SandpackProvider>
+);
@@ -0,0 +1,139 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { SandpackStack } from "../../common/Stack";
+import { useModuleGraph } from "../../hooks/useModuleGraph";
+import { useSandpack } from "../../hooks/useSandpack";
+import { getFileName } from "../../utils/stringUtils";
+
+import { getGraphLayout, NODE_HEIGHT, NODE_WIDTH } from "./utils";
+
+export interface ModuleGraphProps {
+  customStyle?: React.CSSProperties;
+  /**
+   * Lists the npm packages imported by the sandbox below the graph
+   */
+  showPackages?: boolean;
+  /**
+   * Adds the source files that are not imported from the entry to the graph
+   */
+  showUnusedFiles?: boolean;
+}
+
+/**
+ * Draws the modules of the sandbox and their imports, from the last
+ * compilation. It needs a preview (or any other bundler) in the same provider
+ *
+ * @category Components
+ */
+export const SandpackModuleGraph: React.FC<ModuleGraphProps> = ({
+  customStyle,
+  showPackages = true,
+  showUnusedFiles = true,
+}) => {
+  const { sandpack } = useSandpack();
+  const graph = useModuleGraph();
+  const c = useClasser("sp");
+
+  const { nodes, edges, width, height } = React.useMemo(
+    () => getGraphLayout(graph, showUnusedFiles),
+    [graph, showUnusedFiles]
+  );
+  const positions = nodes.reduce(
+    (acc: Record<string, { x: number; y: number }>, { path, x, y }) => {
+      acc[path] = { x, y };
+      return acc;
+    },
+    {}
+  );
+
+  return (
+    <SandpackStack customStyle={customStyle}>
+      <div className={c("module-graph")} translate="no">
+        {nodes.length === 0 ? (
+          <p className={c("module-graph-empty")}>
+            The graph is drawn once the sandbox is compiled
+          </p>
+        ) : (
+          <svg
+            aria-label="Module graph"
+            height={height}
+            role="img"
+            viewBox={`0 0 ${width} ${height}`}
+            width={width}
+          >
+            <defs>
+              <marker
+                id="sp-module-graph-arrow"
+                markerHeight="6"
+                markerWidth="6"
+                orient="auto"
+                refX="10"
+                refY="5"
+                viewBox="0 0 10 10"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" />
+              </marker>
+            </defs>
+
+            {edges.map(({ from, to, isAsync, isInCycle }) => {
+              const start = positions[from];
+              const end = positions[to];
+              if (!start || !end) {
+                return null;
+              }
+
+              // Imports that go up in the graph (cycles) leave from the side of the module
+              const isBackwards = end.y <= start.y;
+
+              return (
+                <line
+                  key={`${from}->${to}`}
+                  className={c("module-graph-edge")}
+                  data-async={isAsync}
+                  data-cycle={isInCycle}
+                  markerEnd="url(#sp-module-graph-arrow)"
+                  x1={start.x + (isBackwards ? NODE_WIDTH : NODE_WIDTH / 2)}
+                  x2={end.x + NODE_WIDTH / 2}
+                  y1={start.y + (isBackwards ? NODE_HEIGHT / 2 : NODE_HEIGHT)}
+                  y2={isBackwards ? end.y + NODE_HEIGHT : end.y}
+                />
+              );
+            })}
+
+            {nodes.map(({ path, x, y, isEntry, isUnused, isInCycle }) => (
+              <g
+                key={path}
+                className={c("module-graph-node")}
+                data-active={path === sandpack.activePath}
+                data-cycle={isInCycle}
+                data-entry={isEntry}
+                data-unused={isUnused}
+                onClick={() => {
+                  if (sandpack.files[path]) {
+                    sandpack.openFile(path);
+                  }
+                }}
+                transform={`translate(${x}, ${y})`}
+              >
+                <title>{path}</title>
+                <rect height={NODE_HEIGHT} rx={4} width={NODE_WIDTH} />
+                <text x={NODE_WIDTH / 2} y={NODE_HEIGHT / 2}>
+                  {getFileName(path)}
+                </text>
+              </g>
+            ))}
+          </svg>
+        )}
+      </div>
+
+      {showPackages && graph.packages.length > 0 ? (
+        <ul className={c("module-graph-packages")}>
+          {graph.packages.map((name) => (
+            <li key={name}>{name}</li>
+          ))}
+        </ul>
+      ) : null}
+    </SandpackStack>
+  );
+};
@@ -0,0 +1,118 @@
+import type { ModuleGraph } from "../../types";
+
+export const NODE_WIDTH = 144;
+export const NODE_HEIGHT = 28;
+const COLUMN_GAP = 24;
+const ROW_GAP = 48;
+
+export interface GraphLayoutNode {
+  path: string;
+  x: number;
+  y: number;
+  isEntry: boolean;
+  isUnused: boolean;
+  isInCycle: boolean;
+}
+
+export interface GraphLayoutEdge {
+  from: string;
+  to: string;
+  isAsync: boolean;
+  isInCycle: boolean;
+}
+
+export interface GraphLayout {
+  nodes: GraphLayoutNode[];
+  edges: GraphLayoutEdge[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Places every module in a row by its distance to the entry, the modules that
+ * can't be reached (and the unused files) go in the last rows
+ */
+export const getGraphLayout = (
+  graph: ModuleGraph,
+  showUnusedFiles: boolean
+): GraphLayout => {
+  const { modules, cycles, unusedFiles } = graph;
+  const paths = Object.keys(modules).sort();
+  const levels: Record<string, number> = {};
+
+  let queue = paths.filter((path) => modules[path].isEntry);
+  if (queue.length === 0) {
+    queue = paths.filter((path) => modules[path].importers.length === 0);
+  }
+  queue.forEach((path) => (levels[path] = 0));
+
+  for (let index = 0; index < queue.length; index++) {
+    const path = queue[index];
+    modules[path].importees.forEach((importee) => {
+      if (levels[importee] === undefined) {
+        levels[importee] = levels[path] + 1;
+        queue.push(importee);
+      }
+    });
+  }
+
+  const rows: string[][] = [];
+  const addToRow = (row: number, path: string) => {
+    rows[row] = [...(rows[row] ?? []), path];
+  };
+
+  paths.forEach((path) => {
+    if (levels[path] !== undefined) {
+      addToRow(levels[path], path);
+    }
+  });
+
+  const unreachable = paths.filter((path) => levels[path] === undefined);
+  const unused = showUnusedFiles
+    ? unusedFiles.filter((path) => !modules[path])
+    : [];
+
+  [unreachable, unused].forEach((group) => {
+    const row = rows.length;
+    group.forEach((path) => addToRow(row, path));
+  });
+
+  const getCycle = (path: string) =>
+    cycles.find((cycle) => cycle.includes(path));
+
+  const columns = Math.max(1, ...rows.map((row) => row.length));
+  const width = columns * (NODE_WIDTH + COLUMN_GAP) + COLUMN_GAP;
+  const height = rows.length * (NODE_HEIGHT + ROW_GAP);
+
+  const nodes = rows.reduce((acc: GraphLayoutNode[], row, rowIndex) => {
+    // Rows are centered, so a module with a single importee sits right below it
+    const offset =
+      (width - row.length * (NODE_WIDTH + COLUMN_GAP) + COLUMN_GAP) / 2;
+
+    return acc.concat(
+      row.map((path, columnIndex) => ({
+        path,
+        x: offset + columnIndex * (NODE_WIDTH + COLUMN_GAP),
+        y: ROW_GAP / 2 + rowIndex * (NODE_HEIGHT + ROW_GAP),
+        isEntry: !!modules[path]?.isEntry,
+        isUnused: unusedFiles.includes(path),
+        isInCycle: !!getCycle(path),
+      }))
+    );
+  }, []);
+
+  const edges = paths.reduce((acc: GraphLayoutEdge[], path) => {
+    const { importees, asyncImportees } = modules[path];
+
+    return acc.concat(
+      importees.map((importee) => ({
+        from: path,
+        to: importee,
+        isAsync: asyncImportees.includes(importee),
+        isInCycle: !!getCycle(path)?.includes(importee),
+      }))
+    );
+  }, []);
+
+  return { nodes, edges, width, height };
+};
@@ -0,0 +1,38 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { useSandpackPerformance } from "../../hooks/useSandpackPerformance";
+
+const formatDuration = (duration: number): string =>
+  duration < 1000 ? `${duration}ms` : `${(duration / 1000).toFixed(1)}s`;
+
+/**
+ * @category Components
+ */
+export const PerformanceBadge: React.FC<{
+  clientId?: string;
+}> = ({ clientId }) => {
+  const { latest } = useSandpackPerformance(clientId);
+  const c = useClasser("sp");
+
+  if (!latest) {
+    return null;
+  }
+
+  const details = [
+    `Dependencies: ${formatDuration(latest.dependencyInstall)}`,
+    `Transpilation: ${formatDuration(latest.transpile)}`,
+    `Evaluation: ${formatDuration(latest.evaluate)}`,
+    `Transpiled modules: ${latest.transpiledModules}`,
+  ].join("\n");
+
+  return (
+    <span
+      className={c("performance-badge")}
+      data-error={latest.compilationError}
+      title={details}
+    >
+      {formatDuration(latest.total)}
+    </span>
+  );
+};
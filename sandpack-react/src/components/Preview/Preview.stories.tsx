@@ -86,6 +86,41 @@ export const WithNavigator: React.FC = () => (
   </SandpackProvider>
 );
 
+export const WithPerformanceStats: React.FC = () => (
+  <SandpackProvider
+    customSetup={{
+      files: {
+        "/App.js": code,
+      },
+    }}
+    template="react"
+  >
+    <SandpackLayout>
+      <SandpackPreview showPerformanceStats />
+    </SandpackLayout>
+  </SandpackProvider>
+);
+
+export const WithBundlerRetries: React.FC = () => (
+  <SandpackProvider
+    bundlerRetries={1}
+    bundlerRetryDelay={500}
+    bundlerTimeout={3000}
+    bundlerURL="https://unreachable-bundler.codesandbox.io/"
+    customSetup={{
+      files: {
+        "/App.js": code,
+      },
+    }}
+    fallbackBundlerURLs={["https://0-9-9-sandpack.codesandbox.io/"]}
+    template="react"
+  >
+    <SandpackLayout>
+      <SandpackPreview />
+    </SandpackLayout>
+  </SandpackProvider>
+);
+
 export const AutoResize: React.FC = () => (
   <SandpackProvider
     customSetup={{
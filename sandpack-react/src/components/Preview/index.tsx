@@ -1,14 +1,16 @@
 import { useClasser } from "@code-hike/classer";
+import type { SandpackIframeSandboxToken } from "@codesandbox/sandpack-client";
 import * as React from "react";
 
 import { ErrorOverlay } from "../../common/ErrorOverlay";
 import { LoadingOverlay } from "../../common/LoadingOverlay";
-import { OpenInCodeSandboxButton } from "../../common/OpenInCodeSandboxButton";
+import { OpenInButton } from "../../common/OpenInButton";
 import { SandpackStack } from "../../common/Stack";
 import { useSandpack } from "../../hooks/useSandpack";
 import { generateRandomId } from "../../utils/stringUtils";
 import { Navigator } from "../Navigator";
 
+import { PerformanceBadge } from "./PerformanceBadge";
 import { RefreshButton } from "./RefreshButton";
 
 export type ViewportSizePreset =
@@ -29,12 +31,29 @@ export interface PreviewProps {
   viewportSize?: ViewportSize;
   viewportOrientation?: ViewportOrientation;
   showNavigator?: boolean;
+  /**
+   * Shows the export button of the `exportProvider` set on the SandpackProvider,
+   * which defaults to CodeSandbox
+   */
   showOpenInCodeSandbox?: boolean;
   showRefreshButton?: boolean;
   showSandpackErrorOverlay?: boolean;
+  /**
+   * Shows how long the last compilation took, with the time of each phase on hover
+   */
+  showPerformanceStats?: boolean;
+  /**
+   * Tokens of the `sandbox` attribute of the iframe, they replace the ones of the SandpackProvider.
+   * Read when the preview mounts, like `allow`
+   */
+  sandbox?: SandpackIframeSandboxToken[];
+  /**
+   * Permissions policy of the iframe, eg: `["clipboard-write", "fullscreen"]`
+   */
+  allow?: string[];
 }
 
-export { RefreshButton };
+export { RefreshButton, PerformanceBadge };
 
 /**
  * @category Components
@@ -45,8 +64,11 @@ export const SandpackPreview: React.FC<PreviewProps> = ({
   showRefreshButton = true,
   showOpenInCodeSandbox = true,
   showSandpackErrorOverlay = true,
+  showPerformanceStats = false,
   viewportSize = "auto",
   viewportOrientation = "portrait",
+  sandbox,
+  allow,
 }) => {
   const { sandpack, listen } = useSandpack();
   const [iframeComputedHeight, setComputedAutoHeight] = React.useState<
@@ -64,6 +86,8 @@ export const SandpackPreview: React.FC<PreviewProps> = ({
   const c = useClasser("sp");
   const clientId = React.useRef<string>(generateRandomId());
   const iframeRef = React.useRef<HTMLIFrameElement | null>(null);
+  // Inline arrays are new on every render, the iframe keeps the permissions it was registered with
+  const permissions = React.useRef({ sandbox, allow });
 
   // SandpackPreview immediately registers the custom screens/components so the bundler does not render any of them
   openInCSBRegisteredRef.current = true;
@@ -71,20 +95,23 @@ export const SandpackPreview: React.FC<PreviewProps> = ({
   loadingScreenRegisteredRef.current = true;
 
   React.useEffect(() => {
-    const iframeElement = iframeRef.current!;
-    registerBundler(iframeElement, clientId.current);
+    const iframeElement = iframeRef.current;
+    const currentClientId = clientId.current;
+    if (!iframeElement) return;
+
+    registerBundler(iframeElement, currentClientId, permissions.current);
 
     const unsub = listen((message) => {
       if (message.type === "resize") {
         setComputedAutoHeight(message.height);
       }
-    }, clientId.current);
+    }, currentClientId);
 
     return () => {
       unsub();
-      unregisterBundler(clientId.current);
+      unregisterBundler(currentClientId);
     };
-  }, []);
+  }, [registerBundler, unregisterBundler, listen]);
 
   const handleNewURL = (newUrl: string) => {
     if (!iframeRef.current) {
@@ -123,14 +150,20 @@ export const SandpackPreview: React.FC<PreviewProps> = ({
           title="Sandpack Preview"
         />
 
-        {showSandpackErrorOverlay ? <ErrorOverlay /> : null}
+        {showSandpackErrorOverlay ? (
+          <ErrorOverlay clientId={clientId.current} />
+        ) : null}
+
+        {showPerformanceStats ? (
+          <PerformanceBadge clientId={clientId.current} />
+        ) : null}
 
         <div className={c("preview-actions")}>
           {!showNavigator && showRefreshButton && status === "running" ? (
             <RefreshButton clientId={clientId.current} />
           ) : null}
 
-          {showOpenInCodeSandbox ? <OpenInCodeSandboxButton /> : null}
+          {showOpenInCodeSandbox ? <OpenInButton /> : null}
         </div>
 
         <LoadingOverlay clientId={clientId.current} />
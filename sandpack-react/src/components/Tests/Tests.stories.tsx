@@ -0,0 +1,68 @@
+import React from "react";
+
+import { SandpackLayout } from "../../common/Layout";
+import { SandpackProvider } from "../../contexts/sandpackContext";
+import { SandpackCodeEditor } from "../CodeEditor";
+
+import { SandpackTests } from "./index";
+
+export default {
+  title: "components/Tests",
+  component: SandpackTests,
+};
+
+const sum = `export const sum = (a, b) => a + b;`;
+
+const sumTest = `import { sum } from "./sum";
+
+describe("sum", () => {
+  it("adds two numbers", () => {
+    expect(sum(1, 2)).toBe(3);
+  });
+
+  describe("with negative numbers", () => {
+    it("subtracts", () => {
+      expect(sum(1, -2)).toBe(-1);
+    });
+
+    it("fails on purpose", () => {
+      expect(sum(1, -2)).toBe(1);
+    });
+  });
+});`;
+
+export const Component: React.FC = () => (
+  <SandpackProvider
+    customSetup={{
+      entry: "/sum.test.js",
+      files: {
+        "/sum.js": sum,
+        "/sum.test.js": sumTest,
+      },
+    }}
+    template="vanilla"
+  >
+    <SandpackLayout>
+      <SandpackCodeEditor />
+      <SandpackTests watchMode />
+    </SandpackLayout>
+  </SandpackProvider>
+);
+
+export const ManualRun: React.FC = () => (
+  <SandpackProvider
+    customSetup={{
+      entry: "/sum.test.js",
+      files: {
+        "/sum.js": sum,
+        "/sum.test.js": sumTest,
+      },
+    }}
+    template="vanilla"
+  >
+    <SandpackLayout>
+      <SandpackCodeEditor />
+      <SandpackTests />
+    </SandpackLayout>
+  </SandpackProvider>
+);
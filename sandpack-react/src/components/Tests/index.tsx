@@ -0,0 +1,171 @@
+import { useClasser } from "@code-hike/classer";
+import * as React from "react";
+
+import { SandpackStack } from "../../common/Stack";
+import { useSandpack } from "../../hooks/useSandpack";
+import { useSandpackTests } from "../../hooks/useSandpackTests";
+import { RunIcon } from "../../icons";
+import { generateRandomId } from "../../utils/stringUtils";
+
+import type { TestBlock } from "./utils";
+import { getTestKeys, getTestTree, isBlockFailing } from "./utils";
+
+export interface TestsProps {
+  customStyle?: React.CSSProperties;
+  /**
+   * Run all the test files again every time the sandbox finishes compiling
+   * after its files changed
+   */
+  watchMode?: boolean;
+}
+
+/**
+ * @category Components
+ */
+export const SandpackTests: React.FC<TestsProps> = ({
+  customStyle,
+  watchMode = false,
+}) => {
+  const { sandpack, listen } = useSandpack();
+  const { registerBundler, unregisterBundler } = sandpack;
+  const c = useClasser("sp");
+  const clientId = React.useRef<string>(generateRandomId());
+  const hiddenIframeRef = React.useRef<HTMLIFrameElement | null>(null);
+  const { files, summary, isRunning, runTests } = useSandpackTests(
+    clientId.current
+  );
+
+  React.useEffect(() => {
+    const hiddenIframe = hiddenIframeRef.current;
+    const currentClientId = clientId.current;
+    if (!hiddenIframe) return;
+
+    registerBundler(hiddenIframe, currentClientId);
+
+    return () => {
+      unregisterBundler(currentClientId);
+    };
+  }, [registerBundler, unregisterBundler]);
+
+  // Running the tests compiles again, only a compilation of other files starts a new run
+  const filesRef = React.useRef(sandpack.files);
+  filesRef.current = sandpack.files;
+  const testedFiles = React.useRef<typeof sandpack.files | null>(null);
+
+  React.useEffect(() => {
+    if (!watchMode) return () => null;
+
+    const unsub = listen((message) => {
+      if (
+        message.type === "done" &&
+        !message.compilatonError &&
+        testedFiles.current !== filesRef.current
+      ) {
+        testedFiles.current = filesRef.current;
+        runTests();
+      }
+    }, clientId.current);
+
+    return () => unsub();
+  }, [listen, watchMode, runTests]);
+
+  const testFiles = Object.values(files).sort((a, b) =>
+    a.path.localeCompare(b.path)
+  );
+
+  return (
+    <SandpackStack customStyle={customStyle}>
+      <div className={c("tabs", "tests-header")}>
+        <span className={c("tests-summary")}>
+          {isRunning
+            ? "Running tests..."
+            : summary
+            ? `${summary.passed} passed, ${summary.failed} failed, ${summary.total} total (${summary.duration}ms)`
+            : "No test results yet"}
+        </span>
+
+        <button
+          className={c("button")}
+          disabled={sandpack.status !== "running" || isRunning}
+          onClick={() => runTests()}
+          type="button"
+        >
+          <RunIcon />
+          Run all
+        </button>
+      </div>
+
+      <div className={c("tests")} translate="no">
+        {testFiles.map((file) => (
+          <div key={file.path} className={c("test-file")}>
+            <div className={c("test-file-header")} data-status={file.status}>
+              <span>{file.path}</span>
+              <button
+                className={c("button", "icon")}
+                disabled={isRunning}
+                onClick={() => runTests(file.path)}
+                title={`Run tests in ${file.path}`}
+                type="button"
+              >
+                <RunIcon />
+              </button>
+            </div>
+
+            <TestBlockResults block={getTestTree(file.tests)} depth={0} />
+          </div>
+        ))}
+      </div>
+
+      <iframe
+        ref={hiddenIframeRef}
+        style={{ display: "none" }}
+        title="Sandpack Tests"
+      />
+    </SandpackStack>
+  );
+};
+
+const TestBlockResults: React.FC<{ block: TestBlock; depth: number }> = ({
+  block,
+  depth,
+}) => {
+  const c = useClasser("sp");
+  const testKeys = getTestKeys(block.tests);
+
+  return (
+    <>
+      {block.blocks.map((child) => (
+        <div key={child.name}>
+          <div
+            className={c("test-describe")}
+            data-status={isBlockFailing(child) ? "fail" : "pass"}
+            style={{ paddingLeft: 16 * (depth + 1) + "px" }}
+          >
+            {child.name}
+          </div>
+          <TestBlockResults block={child} depth={depth + 1} />
+        </div>
+      ))}
+
+      {block.tests.map((test, index) => (
+        <div
+          key={testKeys[index]}
+          className={c("test")}
+          data-status={test.status}
+          style={{ paddingLeft: 16 * (depth + 1) + "px" }}
+        >
+          <span aria-label={test.status === "pass" ? "Passed" : "Failed"}>
+            {test.status === "pass" ? "✓" : "✕"}
+          </span>{" "}
+          {test.name}{" "}
+          <span className={c("test-duration")}>({test.duration}ms)</span>
+          {test.errors.map((error, index) => (
+            <pre key={index} className={c("test-error")}>
+              {error.stack || error.message}
+            </pre>
+          ))}
+        </div>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,47 @@
+import type { SandpackTestResult } from "@codesandbox/sandpack-client";
+
+export interface TestBlock {
+  name: string;
+  blocks: TestBlock[];
+  tests: SandpackTestResult[];
+}
+
+// Rebuilds the describe/it hierarchy from the flat list of results, keeping the order in which they were reported
+export const getTestTree = (tests: SandpackTestResult[]): TestBlock => {
+  const root: TestBlock = { name: "", blocks: [], tests: [] };
+
+  tests.forEach((test) => {
+    const parent = test.blocks.reduce((block, blockName) => {
+      let child = block.blocks.find(({ name }) => name === blockName);
+      if (!child) {
+        child = { name: blockName, blocks: [], tests: [] };
+        block.blocks.push(child);
+      }
+
+      return child;
+    }, root);
+
+    parent.tests.push(test);
+  });
+
+  return root;
+};
+
+/**
+ * Keys of the tests by their describe blocks and name, the tests with the same
+ * name in the same block get a number after the first one
+ */
+export const getTestKeys = (tests: SandpackTestResult[]): string[] => {
+  const counts: Record<string, number> = {};
+
+  return tests.map(({ blocks, name }) => {
+    const key = [...blocks, name].join(" › ");
+    counts[key] = (counts[key] ?? 0) + 1;
+
+    return counts[key] > 1 ? `${key} (${counts[key]})` : key;
+  });
+};
+
+export const isBlockFailing = (block: TestBlock): boolean =>
+  block.tests.some(({ status }) => status === "fail") ||
+  block.blocks.some(isBlockFailing);
@@ -1,6 +1,11 @@
 export * from "./CodeEditor";
 export * from "./CodeViewer";
+export * from "./Console";
+export * from "./Devtools";
+export * from "./FileExplorer";
 export * from "./FileTabs";
+export * from "./ModuleGraph";
 export * from "./Navigator";
 export * from "./Preview";
+export * from "./Tests";
 export * from "./TranspiledCode";
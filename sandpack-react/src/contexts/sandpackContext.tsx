@@ -1,17 +1,26 @@
+import type { EditorState as CodeMirrorState } from "@codemirror/state";
 import type {
   BundlerState,
+  FileResolverChange,
   ListenerFunction,
   SandpackBundlerFiles,
+  SandpackEnvironmentVariables,
   SandpackError,
+  SandpackIframeSandboxToken,
   SandpackMessage,
   UnsubscribeFunction,
 } from "@codesandbox/sandpack-client";
 import {
+  BUNDLER_URL,
   SandpackClient,
+  createSandpackError,
   extractErrorDetails,
+  hashString,
 } from "@codesandbox/sandpack-client";
 import * as React from "react";
 
+import { getExportProvider } from "../exportProviders";
+import { localStorageAdapter } from "../persistence";
 import type {
   SandpackContext,
   SandboxEnvironment,
@@ -21,8 +30,31 @@ import type {
   SandpackPredefinedTemplate,
   SandpackSetup,
   SandpackInitMode,
+  SandpackExportProviderProp,
+  SandpackCursorPosition,
+  SandpackFilePosition,
+  SandpackNotification,
+  SandpackIframePermissions,
+  SandpackBundlerAttempt,
+  SandpackDraftState,
+  SandpackPersistence,
+  SandpackPersistenceAdapter,
+  SandpackFileOperation,
+  SandpackHistoryEntry,
 } from "../types";
-import { getSandpackStateFromProps } from "../utils/sandpackUtils";
+import {
+  applyFilesPatch,
+  getFilesPatch,
+  getMovedPath,
+  listFileResolverDirectory,
+  updatePackageJSONMain,
+} from "../utils/fileUtils";
+import type { SandpackContextInfo } from "../utils/sandpackUtils";
+import {
+  getControlledFiles,
+  getSandpackStateFromProps,
+} from "../utils/sandpackUtils";
+import { getShareableProps, readShareableURL } from "../utils/shareUtils";
 import { generateRandomId } from "../utils/stringUtils";
 
 /**
@@ -30,28 +62,70 @@ import { generateRandomId } from "../utils/stringUtils";
  */
 const Sandpack = React.createContext<SandpackContext | null>(null);
 const BUNDLER_TIMEOUT = 30000; // 30 seconds timeout for the bundler to respond.
+const BUNDLER_RETRY_DELAY = 1000; // Doubles with every retry
+const DRAFT_SAVE_DELAY = 500;
+const HISTORY_SIZE = 100;
+const EDIT_GROUP_DELAY = 1000; // Edits of the same file closer than this are undone at once
+// Only sent by a running bundler, the client makes up others itself (eg: dropped-message, compile-metrics)
+const BUNDLER_MESSAGES: Array<SandpackMessage["type"]> = [
+  "initialized",
+  "start",
+  "status",
+  "state",
+  "done",
+  "success",
+];
 
 export interface SandpackProviderState {
   files: SandpackBundlerFiles;
+  template?: SandpackPredefinedTemplate;
   environment?: SandboxEnvironment;
   activePath: string;
   openPaths: string[];
   startRoute?: string;
   bundlerState?: BundlerState;
   error: SandpackError | null;
+  errors: Record<string, SandpackError[]>;
+  cursorPosition: SandpackCursorPosition | null;
+  notifications: SandpackNotification[];
   sandpackStatus: SandpackStatus;
+  bundlerAttempt: SandpackBundlerAttempt;
   editorState: EditorState;
   renderHiddenIframe: boolean;
   initMode: SandpackInitMode;
+  fileResolverPaths: string[];
+  directories: string[];
+  draft: SandpackDraftState | null;
+  undoStack: SandpackHistoryEntry[];
+  redoStack: SandpackHistoryEntry[];
 }
 
+type ControlledValue = "files" | "activePath" | "openPaths";
+
+type EditorStateChanges = Partial<
+  Pick<
+    SandpackProviderState,
+    ControlledValue | "editorState" | "cursorPosition" | "directories"
+  >
+>;
+
 export interface SandpackProviderProps {
   template?: SandpackPredefinedTemplate;
   customSetup?: SandpackSetup;
 
-  // editor state (override values)
+  /**
+   * Each of `files`, `activePath` and `openPaths` is controlled when it's passed
+   * along with its change callback: the provider only shows the value of the prop,
+   * and reports the changes (edits, tabs opened or closed...) to the callback.
+   * Without the callback, the prop is the initial value, and the provider starts
+   * over from it whenever it changes. The callbacks are called in both cases
+   */
+  files?: SandpackBundlerFiles;
+  onFilesChange?: (files: SandpackBundlerFiles) => void;
   activePath?: string;
+  onActivePathChange?: (activePath: string) => void;
   openPaths?: string[];
+  onOpenPathsChange?: (openPaths: string[]) => void;
 
   // execution and recompile
   recompileMode?: "immediate" | "delayed";
@@ -68,12 +142,84 @@ export interface SandpackProviderProps {
 
   // bundler options
   bundlerURL?: string;
+  /**
+   * Bundlers loaded in order when `bundlerURL` doesn't respond, after its retries
+   */
+  fallbackBundlerURLs?: string[];
+  /**
+   * Time in milliseconds to wait for the bundler to respond, 30 seconds by default
+   */
+  bundlerTimeout?: number;
+  /**
+   * How many times every bundler is loaded again after a timeout, before moving
+   * to the next fallback or giving up, 0 by default
+   */
+  bundlerRetries?: number;
+  /**
+   * Time in milliseconds to wait before the first retry, it doubles with every
+   * following one, 1 second by default
+   */
+  bundlerRetryDelay?: number;
+  trustedOrigins?: string[];
   startRoute?: string;
   skipEval?: boolean;
   fileResolver?: FileResolver;
   externalResources?: string[];
+  /**
+   * Values of `process.env` and `import.meta.env` in the sandbox, on top of the
+   * ones of the `/.env` and `/.env.local` files. Pass `{ value, secret: true }` to
+   * keep a value out of the sandboxes exported to CodeSandbox or StackBlitz
+   */
+  environmentVariables?: SandpackEnvironmentVariables;
+  /**
+   * Tokens of the `sandbox` attribute of every iframe, eg: `["allow-scripts", "allow-same-origin", "allow-downloads"]`
+   */
+  sandbox?: SandpackIframeSandboxToken[];
+  /**
+   * Permissions policy of every iframe, eg: `["clipboard-write", "fullscreen"]`
+   */
+  allow?: string[];
+
+  /**
+   * Where the sandbox is exported to by the `OpenInButton`, either one of the
+   * predefined providers or a custom one
+   */
+  exportProvider?: SandpackExportProviderProp;
+
+  /**
+   * Saves the edits (files, open paths and active path) as they happen, and
+   * restores them when the provider is mounted again, eg: after a page reload
+   */
+  persistence?: SandpackPersistence;
+
+  /**
+   * Starts from the sandbox in the hash of the page URL, made by `useShareableUrl`,
+   * instead of the one of the props. It's ignored when the `files` are controlled
+   */
+  hydrateFromURL?: boolean;
 }
 
+const isControlled = (
+  props: SandpackProviderProps,
+  value: ControlledValue
+): boolean => {
+  switch (value) {
+    case "files":
+      return props.files !== undefined && props.onFilesChange !== undefined;
+    case "activePath":
+      return (
+        props.activePath !== undefined && props.onActivePathChange !== undefined
+      );
+    case "openPaths":
+      return (
+        props.openPaths !== undefined && props.onOpenPathsChange !== undefined
+      );
+  }
+};
+
+const getDirectoryPath = (path: string): string =>
+  path.endsWith("/") ? path : `${path}/`;
+
 /**
  * Main context provider that should wraps your entire component.
  * Use * [`useSandpack`](/api/react/#usesandpack) hook, which gives you the entire context object to play with.
@@ -92,14 +238,39 @@ class SandpackProvider extends React.PureComponent<
     autorun: true,
   };
 
+  /**
+   * The controlled values always come from the props, whatever was set in the state
+   *
+   * @hidden
+   */
+  static getDerivedStateFromProps(
+    props: SandpackProviderProps
+  ): Partial<SandpackProviderState> | null {
+    const controlledState: Partial<SandpackProviderState> = {};
+
+    if (isControlled(props, "files")) {
+      controlledState.files = getControlledFiles(props);
+    }
+    if (isControlled(props, "activePath")) {
+      controlledState.activePath = props.activePath;
+    }
+    if (isControlled(props, "openPaths")) {
+      controlledState.openPaths = props.openPaths;
+    }
+
+    return Object.keys(controlledState).length > 0 ? controlledState : null;
+  }
+
   lazyAnchorRef: React.RefObject<HTMLDivElement>;
 
   preregisteredIframes: Record<string, HTMLIFrameElement>;
+  iframePermissions: Record<string, SandpackIframePermissions>;
   clients: Record<string, SandpackClient>;
 
   errorScreenRegistered: React.MutableRefObject<boolean>;
   openInCSBRegistered: React.MutableRefObject<boolean>;
   loadingScreenRegistered: React.MutableRefObject<boolean>;
+  codeEditorStates: React.MutableRefObject<Record<string, CodeMirrorState>>;
 
   intersectionObserver?: IntersectionObserver;
   queuedListeners: Record<string, Record<string, ListenerFunction>>;
@@ -108,27 +279,49 @@ class SandpackProvider extends React.PureComponent<
     Record<string, UnsubscribeFunction>
   >;
   unsubscribe?: UnsubscribeFunction;
+  unsubscribeClientListeners: Record<string, UnsubscribeFunction>;
+  unsubscribeFileResolver?: UnsubscribeFunction;
   debounceHook?: number;
+  draftSaveHook?: number;
+  // Nothing is saved until the draft was restored, it would be overwritten otherwise
+  isDraftRestored = false;
+  // Hash of the original files the draft is based on, the one of a stale draft is kept
+  draftSetupHash?: string;
+  // Directories of the file resolver that were listed, or are being listed
+  listedFileResolverDirectories: string[] = [];
+  // The shared sandbox is what was asked for, rather than the draft of a previous visit, and it's never saved
+  isHydratedFromURL = false;
   timeoutHook: NodeJS.Timer | null = null;
+  retryHook: NodeJS.Timer | null = null;
 
   constructor(props: SandpackProviderProps) {
     super(props);
 
-    const { activePath, openPaths, files, environment } =
-      getSandpackStateFromProps(props);
+    const { activePath, openPaths, files, environment, template } =
+      this.getInitialState(props);
 
     this.state = {
       files,
+      template,
       environment,
       openPaths,
       activePath,
       startRoute: this.props.startRoute,
       bundlerState: undefined,
       error: null,
+      errors: {},
+      cursorPosition: null,
+      notifications: [],
       sandpackStatus: this.props.autorun ? "initial" : "idle",
+      bundlerAttempt: this.getBundlerAttempt(1),
       editorState: "pristine",
       renderHiddenIframe: false,
       initMode: this.props.initMode || "lazy",
+      fileResolverPaths: [],
+      directories: [],
+      draft: null,
+      undoStack: [],
+      redoStack: [],
     };
 
     /**
@@ -145,7 +338,9 @@ class SandpackProvider extends React.PureComponent<
      */
     this.unsubscribeQueuedListeners = {};
     this.preregisteredIframes = {};
+    this.iframePermissions = {};
     this.clients = {};
+    this.unsubscribeClientListeners = {};
 
     this.lazyAnchorRef = React.createRef<HTMLDivElement>();
     this.errorScreenRegistered =
@@ -154,18 +349,41 @@ class SandpackProvider extends React.PureComponent<
       React.createRef<boolean>() as React.MutableRefObject<boolean>;
     this.loadingScreenRegistered =
       React.createRef<boolean>() as React.MutableRefObject<boolean>;
+    this.codeEditorStates = { current: {} };
   }
 
   /**
+   * The bundler is alive: it won't time out, and a slow one that answers while
+   * waiting for the next attempt is kept
+   *
    * @hidden
    */
-  handleMessage = (msg: SandpackMessage): void => {
+  handleBundlerAnswer = (): void => {
     if (this.timeoutHook) {
       clearTimeout(this.timeoutHook);
     }
 
+    if (this.state.sandpackStatus === "retrying") {
+      if (this.retryHook) {
+        clearTimeout(this.retryHook);
+      }
+
+      this.setState({ sandpackStatus: "running" });
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  handleMessage = (msg: SandpackMessage): void => {
+    if (BUNDLER_MESSAGES.includes(msg.type)) {
+      this.handleBundlerAnswer();
+    }
+
     if (msg.type === "state") {
       this.setState({ bundlerState: msg.state });
+    } else if (msg.type === "fs-change") {
+      this.handleFileResolverChange(msg);
     } else if (msg.type === "done" && !msg.compilatonError) {
       this.setState({ error: null });
     } else if (msg.type === "action" && msg.action === "show-error") {
@@ -176,11 +394,197 @@ class SandpackProvider extends React.PureComponent<
       msg.notificationType === "error"
     ) {
       this.setState({
-        error: { message: msg.title },
+        error: createSandpackError({ message: msg.title }),
       });
     }
   };
 
+  /**
+   * @hidden
+   */
+  handleClientError = (msg: SandpackMessage, clientId: string): void => {
+    if (msg.type === "start") {
+      this.setState(({ errors }) => ({
+        errors: { ...errors, [clientId]: [] },
+      }));
+      return;
+    }
+
+    let error: SandpackError;
+    if (msg.type === "action" && msg.action === "show-error") {
+      error = extractErrorDetails(msg);
+    } else if (
+      msg.type === "action" &&
+      msg.action === "notification" &&
+      msg.notificationType === "error"
+    ) {
+      error = createSandpackError({ message: msg.title });
+    } else {
+      return;
+    }
+
+    this.setState(({ errors }) => {
+      const clientErrors = errors[clientId] ?? [];
+      // The same error can be reported more than once in a single compilation
+      if (clientErrors.some(({ id }) => id === error.id)) {
+        return null;
+      }
+
+      return { errors: { ...errors, [clientId]: [...clientErrors, error] } };
+    });
+  };
+
+  /**
+   * @hidden
+   */
+  handleClientNotification = (msg: SandpackMessage, clientId: string): void => {
+    if (
+      msg.type !== "action" ||
+      msg.action !== "notification" ||
+      msg.notificationType === "error"
+    ) {
+      return;
+    }
+
+    const { notificationType, title, message } = msg;
+
+    this.setState(({ notifications }) => {
+      // The bundler notifies again on every compilation, until the cause is gone
+      const isDuplicate = notifications.some(
+        (notification) =>
+          notification.clientId === clientId &&
+          notification.type === notificationType &&
+          notification.title === title &&
+          notification.message === message
+      );
+      if (isDuplicate) {
+        return null;
+      }
+
+      return {
+        notifications: [
+          ...notifications,
+          {
+            id: generateRandomId(),
+            clientId,
+            type: notificationType,
+            title,
+            message,
+            timestamp: Date.now(),
+          },
+        ],
+      };
+    });
+  };
+
+  /**
+   * @hidden
+   */
+  dismissNotification = (id: string): void => {
+    this.setState(({ notifications }) => ({
+      notifications: notifications.filter(
+        (notification) => notification.id !== id
+      ),
+    }));
+  };
+
+  /**
+   * @hidden
+   */
+  watchFileResolver = (): void => {
+    const { fileResolver } = this.props;
+
+    this.unsubscribeFileResolver?.();
+    this.unsubscribeFileResolver = fileResolver?.watch?.(
+      this.handleFileResolverWatch
+    );
+
+    this.listedFileResolverDirectories = [];
+    this.setState({ fileResolverPaths: [] });
+
+    if (fileResolver) {
+      this.listFileResolverDirectory("/");
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  listFileResolverDirectory = (directory: string): void => {
+    const { fileResolver } = this.props;
+    if (
+      !fileResolver ||
+      this.listedFileResolverDirectories.includes(directory)
+    ) {
+      return;
+    }
+
+    this.listedFileResolverDirectories.push(directory);
+
+    listFileResolverDirectory(fileResolver, directory).then(
+      (paths) => {
+        // The resolver was replaced while it was being listed
+        if (this.props.fileResolver !== fileResolver) {
+          return;
+        }
+
+        this.setState(({ fileResolverPaths }) => ({
+          fileResolverPaths: Array.from(
+            new Set([...fileResolverPaths, ...paths])
+          ),
+        }));
+      },
+      (error) => {
+        this.listedFileResolverDirectories =
+          this.listedFileResolverDirectories.filter(
+            (listedDirectory) => listedDirectory !== directory
+          );
+        console.warn(`${directory} could not be listed`, error);
+      }
+    );
+  };
+
+  /**
+   * The provider is the only one watching the resolver, its clients are told about the changes
+   *
+   * @hidden
+   */
+  handleFileResolverWatch = (change: FileResolverChange): void => {
+    Object.values(this.clients).forEach((client) =>
+      client.dispatch({ type: "fs-change", ...change })
+    );
+    this.handleFileResolverChange(change);
+  };
+
+  /**
+   * @hidden
+   */
+  handleFileResolverChange = ({ event, path }: FileResolverChange): void => {
+    if (event === "delete") {
+      // A directory made again with the same name has to be listed again
+      this.listedFileResolverDirectories =
+        this.listedFileResolverDirectories.filter(
+          (directory) => !directory.startsWith(`${path}/`)
+        );
+    }
+
+    this.setState(({ fileResolverPaths }) => {
+      if (event === "delete") {
+        return {
+          fileResolverPaths: fileResolverPaths.filter(
+            (filePath) => filePath !== path && !filePath.startsWith(`${path}/`)
+          ),
+        };
+      }
+
+      if (event === "create" && !fileResolverPaths.includes(path)) {
+        return { fileResolverPaths: [...fileResolverPaths, path] };
+      }
+
+      return null;
+    });
+  };
+
   /**
    * @hidden
    */
@@ -192,7 +596,7 @@ class SandpackProvider extends React.PureComponent<
    * @hidden
    */
   updateFile = (path: string, newCode: string): void => {
-    if (newCode === this.state.files[this.state.activePath]?.code) {
+    if (newCode === this.state.files[path]?.code) {
       return;
     }
 
@@ -202,7 +606,237 @@ class SandpackProvider extends React.PureComponent<
       [path]: { code: newCode },
     };
 
-    this.setState({ files: newFiles }, this.updateClients);
+    this.updateEditorState({ files: newFiles }, "edit");
+  };
+
+  /**
+   * Files, active path and open paths only change through here. The callbacks of
+   * the props are told about every change, and the controlled values stay as they
+   * are until the parent passes them back (see `getDerivedStateFromProps`).
+   * The changes of the files and directories made by an operation can be undone
+   *
+   * @hidden
+   */
+  updateEditorState = (
+    changes: EditorStateChanges,
+    operation?: SandpackFileOperation,
+    movedPaths?: Record<string, string>
+  ): void => {
+    const { files, activePath, openPaths, directories } = this.state;
+    const { onFilesChange, onActivePathChange, onOpenPathsChange } = this.props;
+
+    if (operation) {
+      const hasNewFiles = changes.files && changes.files !== files;
+      const hasNewDirectories =
+        changes.directories &&
+        changes.directories.join() !== directories.join();
+
+      this.pushHistoryEntry(operation, {
+        ...(hasNewFiles
+          ? getFilesPatch(files, changes.files as SandpackBundlerFiles)
+          : { before: {}, after: {} }),
+        directories: hasNewDirectories
+          ? { before: directories, after: changes.directories as string[] }
+          : undefined,
+        movedPaths,
+      });
+    }
+
+    this.setState(changes as SandpackProviderState, () => {
+      // The controlled files reach the clients once they are passed back, see `componentDidUpdate`
+      if (changes.files && !isControlled(this.props, "files")) {
+        this.updateClients();
+      }
+    });
+
+    if (changes.files && changes.files !== files) {
+      onFilesChange?.(changes.files);
+    }
+    if (changes.activePath && changes.activePath !== activePath) {
+      onActivePathChange?.(changes.activePath);
+    }
+    if (changes.openPaths && changes.openPaths.join() !== openPaths.join()) {
+      onOpenPathsChange?.(changes.openPaths);
+    }
+  };
+
+  /**
+   * Only the paths that changed are kept, so undoing an operation doesn't revert
+   * the changes made to other files since, eg: by the parent of controlled files.
+   * Consecutive edits of the same file are a single entry, as the typing is grouped
+   * by the editor
+   *
+   * @hidden
+   */
+  pushHistoryEntry = (
+    operation: SandpackFileOperation,
+    changes: Omit<SandpackHistoryEntry, "operation" | "timestamp">
+  ): void => {
+    const paths = Object.keys(changes.after);
+    if (paths.length === 0 && !changes.directories) {
+      return;
+    }
+
+    const timestamp = Date.now();
+
+    this.setState(({ undoStack }) => {
+      const lastEntry = undoStack[undoStack.length - 1];
+      const isSameEdit =
+        operation === "edit" &&
+        lastEntry?.operation === "edit" &&
+        timestamp - lastEntry.timestamp < EDIT_GROUP_DELAY &&
+        Object.keys(lastEntry.after).join() === paths.join();
+
+      const entry = isSameEdit
+        ? { ...lastEntry, after: changes.after, timestamp }
+        : { operation, ...changes, timestamp };
+
+      return {
+        undoStack: [
+          ...(isSameEdit ? undoStack.slice(0, -1) : undoStack),
+          entry,
+        ].slice(-HISTORY_SIZE),
+        redoStack: [],
+      };
+    });
+  };
+
+  /**
+   * @hidden
+   */
+  undo = (): void => {
+    const { undoStack, redoStack } = this.state;
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) {
+      return;
+    }
+
+    this.setState({
+      undoStack: undoStack.slice(0, -1),
+      redoStack: [...redoStack, entry],
+    });
+    this.showHistoryEntry(entry, "before");
+  };
+
+  /**
+   * @hidden
+   */
+  redo = (): void => {
+    const { undoStack, redoStack } = this.state;
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) {
+      return;
+    }
+
+    this.setState({
+      undoStack: [...undoStack, entry],
+      redoStack: redoStack.slice(0, -1),
+    });
+    this.showHistoryEntry(entry, "after");
+  };
+
+  /**
+   * Applies one side of an undo or redo, and opens the file it changed, so
+   * it doesn't happen out of sight. Files that no longer exist are closed
+   *
+   * @hidden
+   */
+  showHistoryEntry = (
+    entry: SandpackHistoryEntry,
+    side: "before" | "after"
+  ): void => {
+    const patch = entry[side];
+    const files = applyFilesPatch(this.state.files, patch);
+    const { activePath, openPaths } = this.getOpenPathsOf(files);
+
+    const changedPaths = Object.keys(patch).filter((path) => files[path]);
+    const shownPath = changedPaths.includes(this.state.activePath)
+      ? this.state.activePath
+      : changedPaths[0] ?? activePath;
+
+    const { movedPaths } = entry;
+    if (movedPaths) {
+      const newPaths =
+        side === "after"
+          ? movedPaths
+          : Object.keys(movedPaths).reduce(
+              (acc: Record<string, string>, path) => {
+                acc[movedPaths[path]] = path;
+                return acc;
+              },
+              {}
+            );
+
+      this.moveCodeEditorStates((path) => newPaths[path] ?? path);
+    }
+
+    this.updateEditorState({
+      // Only the directories change when one is created
+      ...(Object.keys(patch).length > 0 ? { files } : {}),
+      ...(entry.directories ? { directories: entry.directories[side] } : {}),
+      activePath: shownPath,
+      openPaths: openPaths.includes(shownPath)
+        ? openPaths
+        : [...openPaths, shownPath],
+      editorState: "dirty",
+    });
+  };
+
+  /**
+   * The editor keeps the history and selection of a file under its path
+   *
+   * @hidden
+   */
+  moveCodeEditorStates = (getNewPath: (path: string) => string): void => {
+    const editorStates = this.codeEditorStates.current;
+    const movedStates = Object.keys(editorStates).reduce(
+      (acc: Record<string, CodeMirrorState>, path) => {
+        const newPath = getNewPath(path);
+        if (newPath !== path) {
+          acc[newPath] = editorStates[path];
+          delete editorStates[path];
+        }
+        return acc;
+      },
+      {}
+    );
+
+    Object.assign(editorStates, movedStates);
+  };
+
+  /**
+   * Open paths and active path once some files are gone: the active path moves to
+   * the closest open file before it, or to the first file when none is left open
+   *
+   * @hidden
+   */
+  getOpenPathsOf = (
+    files: SandpackBundlerFiles
+  ): Pick<SandpackProviderState, "activePath" | "openPaths"> => {
+    const { activePath, openPaths } = this.state;
+    const newOpenPaths = openPaths.filter((path) => files[path]);
+    if (files[activePath]) {
+      return { activePath, openPaths: newOpenPaths };
+    }
+
+    const previousPaths = openPaths
+      .slice(0, Math.max(openPaths.indexOf(activePath), 0))
+      .reverse();
+    const newActivePath =
+      previousPaths.find((path) => files[path]) ??
+      newOpenPaths[0] ??
+      Object.keys(files)[0];
+
+    if (!newActivePath) {
+      return { activePath, openPaths: newOpenPaths };
+    }
+
+    return {
+      activePath: newActivePath,
+      openPaths: newOpenPaths.includes(newActivePath)
+        ? newOpenPaths
+        : [...newOpenPaths, newActivePath],
+    };
   };
 
   /**
@@ -288,17 +922,78 @@ class SandpackProvider extends React.PureComponent<
     }
   }
 
+  /**
+   * @hidden
+   */
+  getInitialState = (
+    props: SandpackProviderProps
+  ): SandpackContextInfo & { template?: SandpackPredefinedTemplate } => {
+    const sharedState =
+      props.hydrateFromURL &&
+      !isControlled(props, "files") &&
+      typeof window !== "undefined"
+        ? readShareableURL(window.location.href)
+        : null;
+
+    if (sharedState) {
+      try {
+        const sharedProps = getShareableProps(props, sharedState);
+        const state = getSandpackStateFromProps(sharedProps);
+        this.isHydratedFromURL = true;
+
+        return { ...state, template: sharedProps.template };
+      } catch (error) {
+        console.warn("The sandbox of the URL could not be loaded", error);
+      }
+    }
+
+    return { ...getSandpackStateFromProps(props), template: props.template };
+  };
+
   /**
    * @hidden
    */
   componentDidMount(): void {
     this.initializeSandpackIframe();
+    this.watchFileResolver();
+    this.restoreDraft();
+
+    // The last changes would be lost on reload while they wait for the save delay
+    window.addEventListener("pagehide", this.flushDraft);
   }
 
   /**
    * @hidden
    */
-  componentDidUpdate(prevProps: SandpackProviderProps): void {
+  componentDidUpdate(
+    prevProps: SandpackProviderProps,
+    prevState: SandpackProviderState
+  ): void {
+    if (prevProps.fileResolver !== this.props.fileResolver) {
+      this.watchFileResolver();
+    }
+
+    if (
+      prevState.files !== this.state.files ||
+      prevState.activePath !== this.state.activePath ||
+      prevState.openPaths !== this.state.openPaths
+    ) {
+      this.scheduleDraftSave();
+    }
+
+    if (
+      JSON.stringify(prevProps.environmentVariables) !==
+        JSON.stringify(this.props.environmentVariables) &&
+      this.state.sandpackStatus === "running"
+    ) {
+      Object.values(this.clients).forEach((client) =>
+        client.updateOptions({
+          ...client.options,
+          environmentVariables: this.props.environmentVariables,
+        })
+      );
+    }
+
     if (prevProps.initMode !== this.props.initMode && this.props.initMode) {
       this.setState(
         { initMode: this.props.initMode },
@@ -306,11 +1001,26 @@ class SandpackProvider extends React.PureComponent<
       );
     }
 
+    // The state already follows the controlled values, their changes only have to reach the clients
+    if (
+      isControlled(this.props, "files") &&
+      prevProps.files !== this.props.files
+    ) {
+      this.updateClients();
+    }
+
+    // Changes of the uncontrolled values start over from the props
     if (
       prevProps.template !== this.props.template ||
-      prevProps.activePath !== this.props.activePath ||
-      JSON.stringify(prevProps.openPaths) !==
-        JSON.stringify(this.props.openPaths) ||
+      (!isControlled(this.props, "activePath") &&
+        prevProps.activePath !== this.props.activePath) ||
+      (!isControlled(this.props, "openPaths") &&
+        JSON.stringify(prevProps.openPaths) !==
+          JSON.stringify(this.props.openPaths)) ||
+      // Inline files are a new object on every render of the parent, only their content counts
+      (!isControlled(this.props, "files") &&
+        prevProps.files !== this.props.files &&
+        JSON.stringify(prevProps.files) !== JSON.stringify(this.props.files)) ||
       JSON.stringify(prevProps.customSetup) !==
         JSON.stringify(this.props.customSetup)
     ) {
@@ -318,7 +1028,17 @@ class SandpackProvider extends React.PureComponent<
         getSandpackStateFromProps(this.props);
 
       /* eslint-disable react/no-did-update-set-state */
-      this.setState({ activePath, openPaths, files, environment });
+      this.setState({
+        activePath,
+        openPaths,
+        files,
+        template: this.props.template,
+        environment,
+        directories: [],
+        // The operations were made on files that are gone
+        undoStack: [],
+        redoStack: [],
+      });
 
       if (this.state.sandpackStatus !== "running") {
         return;
@@ -341,19 +1061,174 @@ class SandpackProvider extends React.PureComponent<
       this.unsubscribe();
     }
 
+    this.unsubscribeFileResolver?.();
+
     if (this.timeoutHook) {
       clearTimeout(this.timeoutHook);
     }
 
+    if (this.retryHook) {
+      clearTimeout(this.retryHook);
+    }
+
     if (this.debounceHook) {
       clearTimeout(this.debounceHook);
     }
 
+    this.flushDraft();
+    window.removeEventListener("pagehide", this.flushDraft);
+
     if (this.intersectionObserver) {
       this.intersectionObserver.disconnect();
     }
   }
 
+  /**
+   * @hidden
+   */
+  getPersistenceAdapter = (): SandpackPersistenceAdapter =>
+    this.props.persistence?.adapter ?? localStorageAdapter;
+
+  /**
+   * @hidden
+   */
+  getSetupHash = (): string =>
+    hashString(JSON.stringify(this.getOriginalFiles()));
+
+  /**
+   * @hidden
+   */
+  restoreDraft = (): void => {
+    const { persistence } = this.props;
+    if (!persistence) {
+      return;
+    }
+
+    // The draft belongs to the original files, the shared sandbox neither restores nor replaces it
+    if (this.isHydratedFromURL) {
+      return;
+    }
+
+    const adapter = this.getPersistenceAdapter();
+    const setupHash = this.getSetupHash();
+
+    adapter
+      .get(persistence.key)
+      .then((draft) => {
+        if (!draft) {
+          return;
+        }
+
+        const isStale = draft.setupHash !== setupHash;
+        if (isStale && persistence.staleDraft !== "restore") {
+          return adapter.remove(persistence.key);
+        }
+
+        // The draft is restored like any other change, so the controlled values reach the parent
+        const openPaths = draft.openPaths.filter((path) => draft.files[path]);
+        this.draftSetupHash = draft.setupHash;
+        this.updateEditorState({
+          files: draft.files,
+          activePath: draft.files[draft.activePath]
+            ? draft.activePath
+            : openPaths[0] ?? this.state.activePath,
+          openPaths: openPaths.length > 0 ? openPaths : this.state.openPaths,
+          editorState: "dirty",
+        });
+        this.setState({ draft: { savedAt: draft.savedAt, isStale } });
+      })
+      .catch((error) => console.warn("The draft could not be restored", error))
+      .then(() => {
+        this.isDraftRestored = true;
+      });
+  };
+
+  /**
+   * @hidden
+   */
+  scheduleDraftSave = (): void => {
+    const { persistence } = this.props;
+    if (!persistence || !this.isDraftRestored) {
+      return;
+    }
+
+    window.clearTimeout(this.draftSaveHook);
+    this.draftSaveHook = window.setTimeout(
+      this.saveDraft,
+      persistence.saveDelay ?? DRAFT_SAVE_DELAY
+    );
+  };
+
+  /**
+   * @hidden
+   */
+  flushDraft = (): void => {
+    if (this.draftSaveHook) {
+      window.clearTimeout(this.draftSaveHook);
+      this.draftSaveHook = undefined;
+      this.saveDraft();
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  saveDraft = (): void => {
+    const { persistence } = this.props;
+    if (!persistence) {
+      return;
+    }
+
+    this.draftSaveHook = undefined;
+    const { files, activePath, openPaths, draft } = this.state;
+
+    // Without any edit left (eg: every file was reset) there's nothing to restore
+    if (JSON.stringify(files) === JSON.stringify(this.getOriginalFiles())) {
+      this.clearDraft();
+      return;
+    }
+
+    const savedAt = Date.now();
+    const setupHash = this.draftSetupHash ?? this.getSetupHash();
+
+    this.getPersistenceAdapter()
+      .set(persistence.key, {
+        files,
+        activePath,
+        openPaths,
+        setupHash,
+        savedAt,
+      })
+      .then(
+        () => {
+          this.draftSetupHash = setupHash;
+          this.setState({
+            draft: { savedAt, isStale: draft?.isStale ?? false },
+          });
+        },
+        (error) => console.warn("The draft could not be saved", error)
+      );
+  };
+
+  /**
+   * @hidden
+   */
+  clearDraft = (): void => {
+    const { persistence } = this.props;
+    if (!persistence || this.isHydratedFromURL) {
+      return;
+    }
+
+    window.clearTimeout(this.draftSaveHook);
+    this.draftSaveHook = undefined;
+    this.draftSetupHash = undefined;
+
+    this.getPersistenceAdapter()
+      .remove(persistence.key)
+      .catch((error) => console.warn("The draft could not be removed", error));
+    this.setState({ draft: null });
+  };
+
   /**
    * @hidden
    */
@@ -369,10 +1244,15 @@ class SandpackProvider extends React.PureComponent<
       },
       {
         externalResources: this.props.externalResources,
-        bundlerURL: this.props.bundlerURL,
+        bundlerURL: this.state.bundlerAttempt.bundlerURL,
+        trustedOrigins: this.props.trustedOrigins,
         startRoute: this.props.startRoute,
         fileResolver: this.props.fileResolver,
         skipEval: this.props.skipEval,
+        environmentVariables: this.props.environmentVariables,
+        sandbox:
+          this.iframePermissions[clientId]?.sandbox ?? this.props.sandbox,
+        allow: this.iframePermissions[clientId]?.allow ?? this.props.allow,
         showOpenInCodeSandbox: !this.openInCSBRegistered.current,
         showErrorScreen: !this.errorScreenRegistered.current,
         showLoadingScreen: !this.loadingScreenRegistered.current,
@@ -384,12 +1264,14 @@ class SandpackProvider extends React.PureComponent<
     // Also, set the timeout timer only when the first client is instantiated
     if (typeof this.unsubscribe !== "function") {
       this.unsubscribe = client.listen(this.handleMessage);
-
-      this.timeoutHook = setTimeout(() => {
-        this.setState({ sandpackStatus: "timeout" });
-      }, BUNDLER_TIMEOUT);
+      this.startBundlerTimeout();
     }
 
+    this.unsubscribeClientListeners[clientId] = client.listen((msg) => {
+      this.handleClientError(msg, clientId);
+      this.handleClientNotification(msg, clientId);
+    });
+
     /**
      * Register any potential listeners that subscribed before sandpack ran
      */
@@ -422,6 +1304,103 @@ class SandpackProvider extends React.PureComponent<
     return client;
   };
 
+  /**
+   * Bundlers in the order they are attempted, `undefined` stands for the default one
+   *
+   * @hidden
+   */
+  getBundlerAttempt = (attempt: number): SandpackBundlerAttempt => {
+    const {
+      bundlerURL,
+      fallbackBundlerURLs = [],
+      bundlerRetries = 0,
+    } = this.props;
+    const bundlerURLs = [bundlerURL, ...fallbackBundlerURLs];
+    const attemptsPerBundler = bundlerRetries + 1;
+
+    return {
+      attempt,
+      maxAttempts: bundlerURLs.length * attemptsPerBundler,
+      bundlerURL: bundlerURLs[Math.floor((attempt - 1) / attemptsPerBundler)],
+    };
+  };
+
+  /**
+   * @hidden
+   */
+  startBundlerTimeout = (): void => {
+    if (this.timeoutHook) {
+      clearTimeout(this.timeoutHook);
+    }
+
+    this.timeoutHook = setTimeout(
+      this.handleBundlerTimeout,
+      this.props.bundlerTimeout ?? BUNDLER_TIMEOUT
+    );
+  };
+
+  /**
+   * @hidden
+   */
+  handleBundlerTimeout = (): void => {
+    const { attempt, maxAttempts } = this.state.bundlerAttempt;
+    if (attempt >= maxAttempts) {
+      this.setState({ sandpackStatus: "timeout" });
+      return;
+    }
+
+    const retryDelay =
+      (this.props.bundlerRetryDelay ?? BUNDLER_RETRY_DELAY) *
+      2 ** (attempt - 1);
+
+    this.setState({ sandpackStatus: "retrying" });
+    this.retryHook = setTimeout(
+      () => this.reloadBundlers(attempt + 1),
+      retryDelay
+    );
+  };
+
+  /**
+   * Loads the bundler of the given attempt in every iframe, the clients (and their listeners) are kept
+   *
+   * @hidden
+   */
+  reloadBundlers = (attempt: number): void => {
+    const bundlerAttempt = this.getBundlerAttempt(attempt);
+
+    this.setState({ sandpackStatus: "running", bundlerAttempt });
+    Object.values(this.clients).forEach((client) => {
+      client.reload({
+        bundlerURL: bundlerAttempt.bundlerURL ?? BUNDLER_URL,
+        sandboxInfo: {
+          files: this.state.files,
+          template: this.state.environment,
+        },
+      });
+    });
+
+    this.startBundlerTimeout();
+  };
+
+  /**
+   * Starts over from the first bundler, after it timed out or while it's still retrying
+   *
+   * @hidden
+   */
+  retryBundler = (): void => {
+    if (this.retryHook) {
+      clearTimeout(this.retryHook);
+    }
+
+    if (Object.keys(this.clients).length === 0) {
+      this.setState({ bundlerAttempt: this.getBundlerAttempt(1) });
+      this.runSandpack();
+      return;
+    }
+
+    this.reloadBundlers(1);
+  };
+
   /**
    * @hidden
    */
@@ -437,7 +1416,15 @@ class SandpackProvider extends React.PureComponent<
   /**
    * @hidden
    */
-  registerBundler = (iframe: HTMLIFrameElement, clientId: string): void => {
+  registerBundler = (
+    iframe: HTMLIFrameElement,
+    clientId: string,
+    permissions?: SandpackIframePermissions
+  ): void => {
+    if (permissions) {
+      this.iframePermissions[clientId] = permissions;
+    }
+
     if (this.state.sandpackStatus === "running") {
       this.clients[clientId] = this.createClient(iframe, clientId);
     } else {
@@ -454,8 +1441,27 @@ class SandpackProvider extends React.PureComponent<
       client.cleanup();
       client.iframe.removeAttribute("src");
       delete this.clients[clientId];
+      // A preregistered iframe gets a new client when the sandbox runs again (eg: `user-visible`), with the same permissions
+      if (!this.preregisteredIframes[clientId]) {
+        delete this.iframePermissions[clientId];
+      }
+
+      this.unsubscribeClientListeners[clientId]?.();
+      delete this.unsubscribeClientListeners[clientId];
+      this.setState(({ errors, notifications }) => {
+        const newErrors = { ...errors };
+        delete newErrors[clientId];
+
+        return {
+          errors: newErrors,
+          notifications: notifications.filter(
+            (notification) => notification.clientId !== clientId
+          ),
+        };
+      });
     } else {
       delete this.preregisteredIframes[clientId];
+      delete this.iframePermissions[clientId];
     }
   };
 
@@ -463,23 +1469,53 @@ class SandpackProvider extends React.PureComponent<
    * @hidden
    */
   setActiveFile = (path: string): void => {
-    this.setState({ activePath: path, editorState: "dirty" });
+    this.updateEditorState({ activePath: path, editorState: "dirty" });
   };
 
   /**
    * @hidden
    */
-  openFile = (path: string): void => {
-    this.setState(({ openPaths }) => {
-      const newPaths = openPaths.includes(path)
-        ? openPaths
-        : [...openPaths, path];
+  openFile = (path: string, position?: SandpackFilePosition): void => {
+    const { files, fileResolverPaths } = this.state;
+    const { fileResolver } = this.props;
+
+    // Files of the resolver are only read once they are opened, the ones of the
+    // directories that weren't listed yet are looked up first
+    if (!files[path] && fileResolver) {
+      const isResolverFile = fileResolverPaths.includes(path)
+        ? Promise.resolve(true)
+        : fileResolver.isFile(path);
+
+      isResolverFile
+        .then((isFile) =>
+          isFile
+            ? fileResolver.readFile(path).then((code) => {
+                this.updateEditorState({
+                  files: { ...this.state.files, [path]: { code } },
+                });
+                this.showFile(path, position);
+              })
+            : this.showFile(path, position)
+        )
+        .catch((error) => console.warn(`${path} could not be read`, error));
 
-      return {
-        activePath: path,
-        openPaths: newPaths,
-        editorState: "dirty",
-      };
+      return;
+    }
+
+    this.showFile(path, position);
+  };
+
+  /**
+   * @hidden
+   */
+  showFile = (path: string, position?: SandpackFilePosition): void => {
+    const { openPaths } = this.state;
+
+    this.updateEditorState({
+      activePath: path,
+      openPaths: openPaths.includes(path) ? openPaths : [...openPaths, path],
+      editorState: "dirty",
+      cursorPosition: position ? { path, ...position } : null,
     });
   };
 
@@ -491,20 +1527,19 @@ class SandpackProvider extends React.PureComponent<
       return;
     }
 
-    this.setState(({ openPaths, activePath }) => {
-      const indexOfRemovedPath = openPaths.indexOf(path);
-      const newPaths = openPaths.filter((openPath) => openPath !== path);
-
-      return {
-        activePath:
-          path === activePath
-            ? indexOfRemovedPath === 0
-              ? openPaths[1]
-              : openPaths[indexOfRemovedPath - 1]
-            : activePath,
-        openPaths: newPaths,
-        editorState: "dirty",
-      };
+    const { openPaths, activePath } = this.state;
+    const indexOfRemovedPath = openPaths.indexOf(path);
+    const newPaths = openPaths.filter((openPath) => openPath !== path);
+
+    this.updateEditorState({
+      activePath:
+        path === activePath
+          ? indexOfRemovedPath === 0
+            ? openPaths[1]
+            : openPaths[indexOfRemovedPath - 1]
+          : activePath,
+      openPaths: newPaths,
+      editorState: "dirty",
     });
   };
 
@@ -512,26 +1547,207 @@ class SandpackProvider extends React.PureComponent<
    * @hidden
    */
   deleteFile = (path: string): void => {
-    this.setState(({ openPaths, files }) => {
-      const newPaths = openPaths.filter((openPath) => openPath !== path);
-      const newFiles = Object.keys(files).reduce(
-        (acc: SandpackBundlerFiles, filePath) => {
-          if (filePath === path) {
-            return acc;
-          }
-          acc[filePath] = files[filePath];
+    const { files } = this.state;
+    const newFiles = Object.keys(files).reduce(
+      (acc: SandpackBundlerFiles, filePath) => {
+        if (filePath === path) {
           return acc;
-        },
-        {}
-      );
+        }
+        acc[filePath] = files[filePath];
+        return acc;
+      },
+      {}
+    );
 
-      return {
-        openPaths: newPaths,
+    this.updateEditorState(
+      {
+        ...this.getOpenPathsOf(newFiles),
         files: newFiles,
         editorState: "dirty",
-      };
-    });
-    this.updateClients();
+      },
+      "delete"
+    );
+  };
+
+  /**
+   * @hidden
+   */
+  pathExists = (path: string): boolean => {
+    const { files, directories } = this.state;
+
+    if (path.endsWith("/")) {
+      return (
+        directories.includes(path) ||
+        Object.keys(files).some((filePath) => filePath.startsWith(path))
+      );
+    }
+
+    return !!files[path];
+  };
+
+  /**
+   * @hidden
+   */
+  createFile = (path: string, code = ""): void => {
+    const { files, openPaths } = this.state;
+    if (!path.startsWith("/") || path.endsWith("/")) {
+      throw new Error(`Invalid path '${path}' provided.`);
+    }
+    if (this.pathExists(path)) {
+      throw new Error(`${path} already exists`);
+    }
+
+    this.updateEditorState(
+      {
+        files: { ...files, [path]: { code } },
+        activePath: path,
+        openPaths: [...openPaths, path],
+        editorState: "dirty",
+      },
+      "create"
+    );
+  };
+
+  /**
+   * @hidden
+   */
+  renameFile = (path: string, newName: string): void => {
+    if (!newName || newName.includes("/")) {
+      throw new Error(`Invalid name '${newName}' provided.`);
+    }
+
+    const isDirectory = path.endsWith("/");
+    const directory = path.slice(0, path.lastIndexOf("/", path.length - 2) + 1);
+
+    this.movePath(
+      path,
+      isDirectory ? `${directory}${newName}/` : `${directory}${newName}`,
+      "rename"
+    );
+  };
+
+  /**
+   * @hidden
+   */
+  moveFile = (path: string, directory: string): void => {
+    const isDirectory = path.endsWith("/");
+    const name = path.split("/").filter(Boolean).pop();
+    const newPath = `${getDirectoryPath(directory)}${name}`;
+
+    this.movePath(path, isDirectory ? `${newPath}/` : newPath, "move");
+  };
+
+  /**
+   * All the files are moved in a single change, so the clients are updated once.
+   * The open paths, the `main` of the package.json and the history of the editor
+   * follow them
+   *
+   * @hidden
+   */
+  movePath = (
+    path: string,
+    newPath: string,
+    operation: SandpackFileOperation
+  ): void => {
+    const { files, activePath, openPaths, directories } = this.state;
+    if (path === newPath) {
+      return;
+    }
+    if (!this.pathExists(path)) {
+      throw new Error(`${path} doesn't exist`);
+    }
+    if (path.endsWith("/") && newPath.startsWith(path)) {
+      throw new Error(`${path} can't be moved into itself`);
+    }
+    if (this.pathExists(newPath)) {
+      throw new Error(`${newPath} already exists`);
+    }
+
+    const getNewPath = getMovedPath(path, newPath);
+    const newFiles = Object.keys(files).reduce(
+      (acc: SandpackBundlerFiles, filePath) => {
+        acc[getNewPath(filePath)] = files[filePath];
+        return acc;
+      },
+      {}
+    );
+
+    const movedPaths = [
+      ...Object.keys(files),
+      ...Object.keys(this.codeEditorStates.current),
+    ].reduce((acc: Record<string, string>, filePath) => {
+      if (getNewPath(filePath) !== filePath) {
+        acc[filePath] = getNewPath(filePath);
+      }
+      return acc;
+    }, {});
+
+    this.moveCodeEditorStates(getNewPath);
+    this.updateEditorState(
+      {
+        files: updatePackageJSONMain(newFiles, getNewPath),
+        activePath: getNewPath(activePath),
+        openPaths: openPaths.map(getNewPath),
+        directories: directories.map(getNewPath),
+        editorState: "dirty",
+      },
+      operation,
+      movedPaths
+    );
+  };
+
+  /**
+   * Directories only need to be created to be listed while they are empty
+   *
+   * @hidden
+   */
+  createDirectory = (path: string): void => {
+    const directory = getDirectoryPath(path);
+    if (!directory.startsWith("/") || directory === "/") {
+      throw new Error(`Invalid path '${path}' provided.`);
+    }
+    if (this.pathExists(directory)) {
+      throw new Error(`${directory} already exists`);
+    }
+
+    this.updateEditorState(
+      { directories: [...this.state.directories, directory] },
+      "create"
+    );
+  };
+
+  /**
+   * @hidden
+   */
+  deleteDirectory = (path: string): void => {
+    const directory = getDirectoryPath(path);
+    const { files, directories } = this.state;
+    const newFiles = Object.keys(files).reduce(
+      (acc: SandpackBundlerFiles, filePath) => {
+        if (!filePath.startsWith(directory)) {
+          acc[filePath] = files[filePath];
+        }
+        return acc;
+      },
+      {}
+    );
+
+    const hasDeletedFiles =
+      Object.keys(newFiles).length < Object.keys(files).length;
+
+    this.updateEditorState(
+      {
+        ...(hasDeletedFiles
+          ? {
+              ...this.getOpenPathsOf(newFiles),
+              files: newFiles,
+              editorState: "dirty",
+            }
+          : {}),
+        directories: directories.filter((item) => !item.startsWith(directory)),
+      },
+      "delete"
+    );
   };
 
   /**
@@ -626,13 +1842,11 @@ class SandpackProvider extends React.PureComponent<
    * @hidden
    */
   resetFile = (path: string): void => {
-    const { files } = getSandpackStateFromProps(this.props);
+    const files = this.getOriginalFiles();
 
-    this.setState(
-      (prevState) => ({
-        files: { ...prevState.files, [path]: files[path] },
-      }),
-      this.updateClients
+    this.updateEditorState(
+      { files: { ...this.state.files, [path]: files[path] } },
+      "reset"
     );
   };
 
@@ -640,9 +1854,22 @@ class SandpackProvider extends React.PureComponent<
    * @hidden
    */
   resetAllFiles = (): void => {
-    const { files } = getSandpackStateFromProps(this.props);
+    this.clearDraft();
+    this.updateEditorState({ files: this.getOriginalFiles() }, "reset");
+  };
+
+  /**
+   * The files are reset to the ones of the template and the custom setup when
+   * they are controlled, otherwise to the `files` prop
+   *
+   * @hidden
+   */
+  getOriginalFiles = (): SandpackBundlerFiles => {
+    const props = isControlled(this.props, "files")
+      ? { ...this.props, files: undefined }
+      : this.props;
 
-    this.setState({ files }, this.updateClients);
+    return getSandpackStateFromProps(props).files;
   };
 
   /**
@@ -655,38 +1882,71 @@ class SandpackProvider extends React.PureComponent<
       openPaths,
       startRoute,
       bundlerState,
+      bundlerAttempt,
       editorState,
       error,
+      errors,
+      cursorPosition,
+      notifications,
       sandpackStatus,
       environment,
       initMode,
+      fileResolverPaths,
+      directories,
+      undoStack,
+      redoStack,
+      template,
     } = this.state;
 
     return {
       files,
+      template,
       environment,
       openPaths,
       activePath,
       startRoute,
       error,
+      errors,
+      cursorPosition,
+      notifications,
       bundlerState,
       status: sandpackStatus,
+      bundlerAttempt,
       editorState,
       initMode,
+      fileResolverPaths,
+      directories,
+      environmentVariables: this.props.environmentVariables ?? {},
+      exportProvider: getExportProvider(this.props.exportProvider),
+      clients: this.clients,
+      draft: this.state.draft,
+      canUndo: undoStack.length > 0,
+      canRedo: redoStack.length > 0,
       closeFile: this.closeFile,
+      codeEditorStatesRef: this.codeEditorStates,
+      createDirectory: this.createDirectory,
+      createFile: this.createFile,
+      deleteDirectory: this.deleteDirectory,
       deleteFile: this.deleteFile,
+      dismissNotification: this.dismissNotification,
       dispatch: this.dispatchMessage,
       errorScreenRegisteredRef: this.errorScreenRegistered,
       lazyAnchorRef: this.lazyAnchorRef,
       listen: this.addListener,
+      listFileResolverDirectory: this.listFileResolverDirectory,
       loadingScreenRegisteredRef: this.loadingScreenRegistered,
+      moveFile: this.moveFile,
       openFile: this.openFile,
       openInCSBRegisteredRef: this.openInCSBRegistered,
+      redo: this.redo,
       registerBundler: this.registerBundler,
+      renameFile: this.renameFile,
       resetAllFiles: this.resetAllFiles,
       resetFile: this.resetFile,
+      retryBundler: this.retryBundler,
       runSandpack: this.runSandpack,
       setActiveFile: this.setActiveFile,
+      undo: this.undo,
       unregisterBundler: this.unregisterBundler,
       updateCurrentFile: this.updateCurrentFile,
       updateFile: this.updateFile,
@@ -0,0 +1,45 @@
+import {
+  getCodeSandboxFileContent,
+  removeSecretEnvironmentVariables,
+} from "@codesandbox/sandpack-client";
+import { getParameters } from "codesandbox-import-utils/lib/api/define";
+
+import { CSBIcon } from "../icons";
+import type { SandpackExportData, SandpackExportProvider } from "../types";
+
+export const getCodeSandboxDefineURL = ({
+  files,
+  environment,
+  activePath,
+  environmentVariables,
+}: SandpackExportData): string => {
+  const publicFiles = removeSecretEnvironmentVariables(
+    files,
+    environmentVariables
+  );
+  const normalized: Record<string, { content: string; isBinary: boolean }> =
+    Object.keys(publicFiles).reduce(
+      (prev, next) => ({
+        ...prev,
+        [next.replace("/", "")]: getCodeSandboxFileContent(publicFiles[next]),
+      }),
+      {}
+    );
+
+  const params = getParameters({
+    files: normalized,
+    ...(environment ? { template: environment } : null),
+  });
+
+  return `https://codesandbox.io/api/v1/sandboxes/define?parameters=${params}&query=file=${activePath}%26from-sandpack=true`;
+};
+
+/**
+ * @category Export
+ */
+export const codesandbox: SandpackExportProvider = {
+  name: "codesandbox",
+  title: "Open in CodeSandbox",
+  icon: CSBIcon,
+  export: (data) => ({ type: "link", url: getCodeSandboxDefineURL(data) }),
+};
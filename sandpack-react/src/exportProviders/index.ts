@@ -0,0 +1,82 @@
+import type {
+  SandpackExportProvider,
+  SandpackExportProviderProp,
+  SandpackExportResult,
+  SandpackPredefinedExportProvider,
+} from "../types";
+
+import { codesandbox } from "./codesandbox";
+import { stackblitz } from "./stackblitz";
+import { zip } from "./zip";
+
+export { codesandbox, stackblitz, zip };
+
+/**
+ * @category Export
+ */
+export const SANDPACK_EXPORT_PROVIDERS: Record<
+  SandpackPredefinedExportProvider,
+  SandpackExportProvider
+> = {
+  codesandbox,
+  stackblitz,
+  zip,
+};
+
+export const getExportProvider = (
+  provider: SandpackExportProviderProp = "codesandbox"
+): SandpackExportProvider => {
+  if (typeof provider !== "string") {
+    return provider;
+  }
+
+  const predefinedProvider = SANDPACK_EXPORT_PROVIDERS[provider];
+  if (!predefinedProvider) {
+    throw new Error(`Invalid export provider '${provider}' provided.`);
+  }
+
+  return predefinedProvider;
+};
+
+/**
+ * Runs the result of an export provider in the browser, it must be called
+ * from a user interaction, otherwise the new tab gets blocked
+ */
+export const openExportResult = (result: SandpackExportResult): void => {
+  if (result.type === "link") {
+    window.open(result.url, "_blank", "noopener,noreferrer");
+  }
+
+  if (result.type === "form") {
+    const form = document.createElement("form");
+    form.method = "POST";
+    form.action = result.url;
+    form.target = "_blank";
+    form.style.display = "none";
+
+    Object.keys(result.fields).forEach((name) => {
+      const input = document.createElement("input");
+      input.type = "hidden";
+      input.name = name;
+      input.value = result.fields[name];
+      form.appendChild(input);
+    });
+
+    document.body.appendChild(form);
+    form.submit();
+    document.body.removeChild(form);
+  }
+
+  if (result.type === "download") {
+    const url = URL.createObjectURL(result.content);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = result.fileName;
+
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    // Some browsers start the download asynchronously, so the url must outlive the click
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
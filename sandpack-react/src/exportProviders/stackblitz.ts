@@ -0,0 +1,87 @@
+import type { SandpackBundlerFiles } from "@codesandbox/sandpack-client";
+import { removeSecretEnvironmentVariables } from "@codesandbox/sandpack-client";
+
+import { StackBlitzIcon } from "../icons";
+import type {
+  SandboxEnvironment,
+  SandpackExportData,
+  SandpackExportProvider,
+} from "../types";
+
+const STACKBLITZ_URL = "https://stackblitz.com/run";
+
+/**
+ * StackBlitz only has a handful of project templates, anything else
+ * runs as a node project that installs the package.json dependencies
+ */
+const getStackBlitzTemplate = (environment?: SandboxEnvironment): string => {
+  switch (environment) {
+    case "create-react-app":
+    case "create-react-app-typescript":
+      return "create-react-app";
+    case "angular-cli":
+      return "angular-cli";
+    case "vue-cli":
+      return "vue";
+    case "static":
+      return "html";
+    case "parcel":
+      return "javascript";
+    default:
+      return "node";
+  }
+};
+
+const getDependencies = (files: SandpackBundlerFiles): string => {
+  try {
+    const { dependencies, devDependencies } = JSON.parse(
+      files["/package.json"].code
+    );
+
+    return JSON.stringify({ ...devDependencies, ...dependencies });
+  } catch {
+    return "{}";
+  }
+};
+
+export const getStackBlitzFormFields = ({
+  files,
+  environment,
+  environmentVariables,
+}: SandpackExportData): Record<string, string> => {
+  const publicFiles = removeSecretEnvironmentVariables(
+    files,
+    environmentVariables
+  );
+
+  return Object.keys(publicFiles).reduce(
+    (fields: Record<string, string>, path) => {
+      // The StackBlitz API only takes text files
+      if (!publicFiles[path].isBinary) {
+        fields[`project[files][${path.replace(/^\//, "")}]`] =
+          publicFiles[path].code;
+      }
+
+      return fields;
+    },
+    {
+      "project[title]": "Sandpack",
+      "project[template]": getStackBlitzTemplate(environment),
+      "project[dependencies]": getDependencies(publicFiles),
+    }
+  );
+};
+
+/**
+ * @category Export
+ */
+export const stackblitz: SandpackExportProvider = {
+  name: "stackblitz",
+  title: "Open in StackBlitz",
+  icon: StackBlitzIcon,
+  export: (data) => ({
+    type: "form",
+    url: STACKBLITZ_URL,
+    fields: getStackBlitzFormFields(data),
+  }),
+};
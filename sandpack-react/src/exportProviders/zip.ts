@@ -0,0 +1,45 @@
+import { removeSecretEnvironmentVariables } from "@codesandbox/sandpack-client";
+
+import { DownloadIcon } from "../icons";
+import type { SandpackExportData, SandpackExportProvider } from "../types";
+import { decodeBase64 } from "../utils/fileUtils";
+import { getRunnableProjectFiles } from "../utils/projectUtils";
+import { createZip } from "../utils/zipUtils";
+
+export const ZIP_FILE_NAME = "sandbox.zip";
+
+export const getZipFiles = (
+  data: SandpackExportData
+): Record<string, string | Uint8Array> => {
+  const files = getRunnableProjectFiles({
+    ...data,
+    files: removeSecretEnvironmentVariables(
+      data.files,
+      data.environmentVariables
+    ),
+  });
+
+  return Object.keys(files).reduce(
+    (acc: Record<string, string | Uint8Array>, path) => {
+      const file = files[path];
+      acc[path] = file.isBinary ? decodeBase64(file.code) : file.code;
+
+      return acc;
+    },
+    {}
+  );
+};
+
+/**
+ * @category Export
+ */
+export const zip: SandpackExportProvider = {
+  name: "zip",
+  title: "Download as zip",
+  icon: DownloadIcon,
+  export: (data) => ({
+    type: "download",
+    fileName: ZIP_FILE_NAME,
+    content: createZip(getZipFiles(data)),
+  }),
+};
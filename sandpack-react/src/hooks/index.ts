@@ -2,7 +2,14 @@ export * from "./useActiveCode";
 export * from "./useCodeSandboxLink";
 export * from "./useErrorMessage";
 export * from "./useLoadingOverlayState";
+export * from "./useModuleGraph";
 export * from "./useSandpack";
+export * from "./useSandpackConsole";
 export * from "./useSandpackNavigation";
+export * from "./useSandpackNotifications";
+export * from "./useSandpackPerformance";
+export * from "./useSandpackTests";
 export * from "./useSandpackTheme";
+export * from "./useSandpackZip";
+export * from "./useShareableUrl";
 export * from "./useTranspiledCode";
@@ -27,6 +27,15 @@ export const useLoadingOverlayState = (
         setLoadingOverlayState("visible");
       }
 
+      // Nothing is compiled while the package.json is broken, the error has to be visible meanwhile
+      if (
+        message.type === "action" &&
+        message.action === "show-error" &&
+        message.path === "/package.json"
+      ) {
+        setLoadingOverlayState("hidden");
+      }
+
       if (message.type === "done") {
         outerHook = setTimeout(() => {
           setLoadingOverlayState(
@@ -51,6 +60,11 @@ export const useLoadingOverlayState = (
     return "timeout";
   }
 
+  // The bundler is loaded again after the wait, so it's still loading in the meantime
+  if (sandpack.status === "retrying") {
+    return "visible";
+  }
+
   if (sandpack.status !== "running") {
     return "hidden";
   }
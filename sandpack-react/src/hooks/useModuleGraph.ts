@@ -0,0 +1,22 @@
+import * as React from "react";
+
+import type { ModuleGraph } from "../types";
+import { getModuleGraph } from "../utils/moduleGraphUtils";
+
+import { useSandpack } from "./useSandpack";
+
+/**
+ * The modules of the sandbox and how they import each other, updated every
+ * time the bundler finishes compiling
+ *
+ * @category Hooks
+ */
+export const useModuleGraph = (): ModuleGraph => {
+  const { sandpack } = useSandpack();
+  const { bundlerState, files } = sandpack;
+
+  return React.useMemo(
+    () => getModuleGraph(bundlerState, files),
+    [bundlerState, files]
+  );
+};
@@ -0,0 +1,53 @@
+import type { SandpackConsoleEntry } from "@codesandbox/sandpack-client";
+import * as React from "react";
+
+import { useSandpack } from "./useSandpack";
+
+const MAX_CONSOLE_ENTRIES = 500; // Keep only the most recent entries, a loop logging on every tick should not grow the list forever
+
+export interface SandpackConsoleLog extends SandpackConsoleEntry {
+  /**
+   * Unique in the logs of the hook, the position of an entry changes as the oldest ones are dropped
+   */
+  id: number;
+}
+
+/**
+ * @category Hooks
+ */
+export const useSandpackConsole = (
+  clientId?: string
+): {
+  logs: SandpackConsoleLog[];
+  reset: () => void;
+} => {
+  const { listen } = useSandpack();
+  const [logs, setLogs] = React.useState<SandpackConsoleLog[]>([]);
+  const nextId = React.useRef(0);
+
+  React.useEffect(() => {
+    const unsub = listen((message) => {
+      // Same as the client errors, the console output belongs to a single run of the bundler
+      if (message.type === "start") {
+        setLogs([]);
+      }
+
+      if (message.type === "console") {
+        const { level, data, timestamp } = message;
+
+        const id = nextId.current++;
+
+        setLogs((prev) =>
+          [...prev, { id, level, data, timestamp }].slice(-MAX_CONSOLE_ENTRIES)
+        );
+      }
+    }, clientId);
+
+    return () => unsub();
+  }, [listen, clientId]);
+
+  return {
+    logs,
+    reset: () => setLogs([]),
+  };
+};
@@ -0,0 +1,28 @@
+import type { SandpackNotification } from "../types";
+
+import { useSandpack } from "./useSandpack";
+
+/**
+ * @category Hooks
+ */
+export const useSandpackNotifications = (
+  clientId?: string
+): {
+  notifications: SandpackNotification[];
+  dismiss: (id: string) => void;
+  dismissAll: () => void;
+} => {
+  const { sandpack } = useSandpack();
+  const notifications = clientId
+    ? sandpack.notifications.filter(
+        (notification) => notification.clientId === clientId
+      )
+    : sandpack.notifications;
+
+  return {
+    notifications,
+    dismiss: sandpack.dismissNotification,
+    dismissAll: () =>
+      notifications.forEach(({ id }) => sandpack.dismissNotification(id)),
+  };
+};
@@ -0,0 +1,35 @@
+import type { SandpackCompileMetrics } from "@codesandbox/sandpack-client";
+import * as React from "react";
+
+import { useSandpack } from "./useSandpack";
+
+/**
+ * Timings of the compilations of a bundler, the history is kept by the client
+ * so it's the same for every component that uses the hook
+ *
+ * @category Hooks
+ */
+export const useSandpackPerformance = (
+  clientId?: string
+): {
+  latest: SandpackCompileMetrics | null;
+  history: SandpackCompileMetrics[];
+} => {
+  const { listen } = useSandpack();
+  const [history, setHistory] = React.useState<SandpackCompileMetrics[]>([]);
+
+  React.useEffect(() => {
+    const unsub = listen((message) => {
+      if (message.type === "compile-metrics") {
+        setHistory(message.history);
+      }
+    }, clientId);
+
+    return () => unsub();
+  }, [listen, clientId]);
+
+  return {
+    latest: history[history.length - 1] ?? null,
+    history,
+  };
+};
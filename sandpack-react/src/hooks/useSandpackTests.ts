@@ -0,0 +1,127 @@
+import type {
+  SandpackTestResult,
+  SandpackTestSummary,
+} from "@codesandbox/sandpack-client";
+import * as React from "react";
+
+import { useSandpack } from "./useSandpack";
+
+export type SandpackTestFileStatus = "running" | "pass" | "fail";
+
+export interface SandpackTestFile {
+  path: string;
+  status: SandpackTestFileStatus;
+  tests: SandpackTestResult[];
+}
+
+/**
+ * @category Hooks
+ */
+export const useSandpackTests = (
+  clientId?: string
+): {
+  files: Record<string, SandpackTestFile>;
+  summary: SandpackTestSummary | null;
+  isRunning: boolean;
+  runTests: (path?: string) => void;
+} => {
+  const { sandpack, dispatch, listen } = useSandpack();
+  const [files, setFiles] = React.useState<Record<string, SandpackTestFile>>(
+    {}
+  );
+  const [summary, setSummary] = React.useState<SandpackTestSummary | null>(
+    null
+  );
+  const [isRunning, setIsRunning] = React.useState(false);
+
+  React.useEffect(() => {
+    const unsub = listen((message) => {
+      if (message.type !== "test") {
+        return;
+      }
+
+      if (message.event === "run_start") {
+        setIsRunning(true);
+        setSummary(null);
+      }
+
+      // Files that are not part of the run (eg: re-running a single file) keep their previous results
+      if (message.event === "suite_start") {
+        const { path } = message;
+
+        setFiles((prev) => ({
+          ...prev,
+          [path]: { path, status: "running", tests: [] },
+        }));
+      }
+
+      if (message.event === "test_end") {
+        const { path, blocks, name, status, errors, duration } = message;
+
+        setFiles((prev) => {
+          const file = prev[path] ?? { path, status: "running", tests: [] };
+
+          return {
+            ...prev,
+            [path]: {
+              ...file,
+              tests: [
+                ...file.tests,
+                { path, blocks, name, status, errors, duration },
+              ],
+            },
+          };
+        });
+      }
+
+      if (message.event === "run_end") {
+        const { total, passed, failed, duration } = message;
+
+        setIsRunning(false);
+        setSummary({ total, passed, failed, duration });
+        setFiles((prev) =>
+          Object.keys(prev).reduce(
+            (acc: Record<string, SandpackTestFile>, path) => {
+              const file = prev[path];
+              acc[path] =
+                file.status === "running"
+                  ? { ...file, status: getFileStatus(file.tests) }
+                  : file;
+
+              return acc;
+            },
+            {}
+          )
+        );
+      }
+    }, clientId);
+
+    return () => unsub();
+  }, [listen, clientId]);
+
+  // The results of a test file go away with it
+  React.useEffect(() => {
+    setFiles((prev) => {
+      const deletedPaths = Object.keys(prev).filter(
+        (path) => !sandpack.files[path]
+      );
+      if (deletedPaths.length === 0) {
+        return prev;
+      }
+
+      const next = { ...prev };
+      deletedPaths.forEach((path) => delete next[path]);
+      return next;
+    });
+  }, [sandpack.files]);
+
+  const runTests = React.useCallback(
+    (path?: string) => dispatch({ type: "run-tests", path }, clientId),
+    [dispatch, clientId]
+  );
+
+  return { files, summary, isRunning, runTests };
+};
+
+const getFileStatus = (tests: SandpackTestResult[]): SandpackTestFileStatus =>
+  tests.some(({ status }) => status === "fail") ? "fail" : "pass";
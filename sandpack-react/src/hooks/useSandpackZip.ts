@@ -0,0 +1,29 @@
+import { openExportResult } from "../exportProviders";
+import { getZipFiles, ZIP_FILE_NAME } from "../exportProviders/zip";
+import { createZip } from "../utils/zipUtils";
+
+import { useSandpack } from "./useSandpack";
+
+/**
+ * @category Hooks
+ */
+export const useSandpackZip = (): {
+  getZip: () => Blob;
+  downloadZip: (fileName?: string) => void;
+} => {
+  const { sandpack } = useSandpack();
+
+  const getZip = (): Blob => {
+    const { files, environment, activePath, environmentVariables } = sandpack;
+
+    return createZip(
+      getZipFiles({ files, environment, activePath, environmentVariables })
+    );
+  };
+
+  return {
+    getZip,
+    downloadZip: (fileName = ZIP_FILE_NAME) =>
+      openExportResult({ type: "download", fileName, content: getZip() }),
+  };
+};
@@ -0,0 +1,89 @@
+import { removeSecretEnvironmentVariables } from "@codesandbox/sandpack-client";
+
+import { openExportResult } from "../exportProviders";
+import {
+  createShareableURL,
+  getShareableState,
+  SHAREABLE_URL_MAX_LENGTH,
+} from "../utils/shareUtils";
+
+import { useSandpack } from "./useSandpack";
+
+export type SandpackShareResult = "copied" | "exported";
+
+/**
+ * Links to the sandbox as it is, with the files, dependencies, template and open
+ * files compressed in the hash. A provider with `hydrateFromURL` starts from them
+ *
+ * @category Hooks
+ */
+export const useShareableUrl = ({
+  baseUrl,
+  maxLength = SHAREABLE_URL_MAX_LENGTH,
+}: {
+  /**
+   * Page the link opens, the current one by default
+   */
+  baseUrl?: string;
+  /**
+   * Longer URLs get cut by browsers and chat apps, the sandbox is exported instead
+   */
+  maxLength?: number;
+} = {}): {
+  /**
+   * `null` when the sandbox is too large for a URL
+   */
+  getShareableUrl: () => string | null;
+  /**
+   * Copies the URL, or exports the sandbox with the `exportProvider` when it's too large
+   */
+  share: () => Promise<SandpackShareResult>;
+} => {
+  const { sandpack } = useSandpack();
+
+  const getShareableUrl = (): string | null => {
+    const {
+      files,
+      template,
+      environment,
+      environmentVariables,
+      activePath,
+      openPaths,
+    } = sandpack;
+
+    const url = createShareableURL(
+      getShareableState({
+        // Secret variables must not end up in a link that is passed around
+        files: removeSecretEnvironmentVariables(files, environmentVariables),
+        template,
+        environment,
+        activePath,
+        openPaths,
+      }),
+      baseUrl ?? window.location.href
+    );
+
+    return url.length <= maxLength ? url : null;
+  };
+
+  const share = async (): Promise<SandpackShareResult> => {
+    const url = getShareableUrl();
+    if (url) {
+      await navigator.clipboard.writeText(url);
+      return "copied";
+    }
+
+    const { files, environment, activePath, environmentVariables } = sandpack;
+    const result = await sandpack.exportProvider.export({
+      files,
+      environment,
+      activePath,
+      environmentVariables,
+    });
+    openExportResult(result);
+
+    return "exported";
+  };
+
+  return { getShareableUrl, share };
+};
@@ -92,6 +92,66 @@ export const CSBIcon = (): React.ReactElement => (
   </svg>
 );
 
+export const StackBlitzIcon = (): React.ReactElement => (
+  <svg
+    fill="currentColor"
+    height="24"
+    viewBox="0 0 24 24"
+    width="24"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path d="M10.797 14.182H6L13.364 4l-2.161 5.818H16L8.636 20l2.161-5.818Z" />
+  </svg>
+);
+
+export const DownloadIcon = (): React.ReactElement => (
+  <svg
+    fill="currentColor"
+    height="24"
+    viewBox="0 0 24 24"
+    width="24"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path d="M11.5 5H12.5V13.2929L15.1464 10.6464L15.8536 11.3536L12 15.2071L8.14645 11.3536L8.85355 10.6464L11.5 13.2929V5ZM6 17H18V18H6V17Z" />
+  </svg>
+);
+
+export const ExportIcon = (): React.ReactElement => (
+  <svg
+    fill="currentColor"
+    height="24"
+    viewBox="0 0 24 24"
+    width="24"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path d="M13 6H18V11H17V7.70711L11.3536 13.3536L10.6464 12.6464L16.2929 7H13V6ZM6 8H10V9H7V17H15V14H16V18H6V8Z" />
+  </svg>
+);
+
+export const ShareIcon = (): React.ReactElement => (
+  <svg
+    fill="currentColor"
+    height="24"
+    viewBox="0 0 24 24"
+    width="24"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path d="M10.5 8.5H8a3.5 3.5 0 1 0 0 7h2.5v-1H8a2.5 2.5 0 0 1 0-5h2.5v-1ZM13.5 8.5H16a3.5 3.5 0 1 1 0 7h-2.5v-1H16a2.5 2.5 0 0 0 0-5h-2.5v-1ZM8.5 11.5h7v1h-7v-1Z" />
+  </svg>
+);
+
+export const CheckIcon = (): React.ReactElement => (
+  <svg
+    fill="currentColor"
+    height="24"
+    viewBox="0 0 24 24"
+    width="24"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path d="M10 15.293L17.146 8.146L17.854 8.854L10 16.707L6.146 12.854L6.854 12.146L10 15.293Z" />
+  </svg>
+);
+
 export const DirectoryIcon = (props: {
   isOpen?: boolean;
 }): React.ReactElement => (
@@ -18,6 +18,8 @@ export * from "./hooks";
 export * from "./contexts/sandpackContext";
 export * from "./contexts/themeContext";
 export * from "./themes";
+export * from "./exportProviders";
+export * from "./persistence";
 export * from "./types";
 
 export * from "@code-hike/classer";
@@ -0,0 +1,4 @@
+import { createIndexedDBAdapter } from "./indexedDB";
+import { localStorageAdapter } from "./localStorage";
+
+export { createIndexedDBAdapter, localStorageAdapter };
@@ -0,0 +1,62 @@
+import type { SandpackDraft, SandpackPersistenceAdapter } from "../types";
+
+const STORE_NAME = "drafts";
+
+const openDatabase = (databaseName: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(databaseName, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Keeps the drafts in IndexedDB, which has room for large sandboxes and binary
+ * files. The database is only opened once a draft is read or written
+ *
+ * @category Persistence
+ */
+export const createIndexedDBAdapter = (
+  databaseName = "sandpack"
+): SandpackPersistenceAdapter => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const runRequest = <T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> => {
+    if (!database) {
+      database = openDatabase(databaseName);
+      // A failed open is tried again on the next request
+      database.catch(() => (database = null));
+    }
+
+    return database.then(
+      (db) =>
+        new Promise<T>((resolve, reject) => {
+          const request = createRequest(
+            db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+          );
+
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+  };
+
+  return {
+    get: (key) =>
+      runRequest<SandpackDraft | undefined>("readonly", (store) =>
+        store.get(key)
+      ).then((draft) => draft ?? null),
+    set: (key, draft) =>
+      runRequest<IDBValidKey>("readwrite", (store) =>
+        store.put(draft, key)
+      ).then(() => undefined),
+    remove: (key) =>
+      runRequest<undefined>("readwrite", (store) => store.delete(key)),
+  };
+};
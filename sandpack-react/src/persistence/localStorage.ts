@@ -0,0 +1,28 @@
+import type { SandpackDraft, SandpackPersistenceAdapter } from "../types";
+
+const KEY_PREFIX = "sandpack-draft:";
+
+/**
+ * Keeps the drafts in `localStorage`, the default adapter. Good enough for a
+ * few sandboxes, but the storage of the origin is limited to a few megabytes
+ *
+ * @category Persistence
+ */
+export const localStorageAdapter: SandpackPersistenceAdapter = {
+  get: (key) =>
+    new Promise((resolve) => {
+      const item = window.localStorage.getItem(KEY_PREFIX + key);
+
+      resolve(item ? (JSON.parse(item) as SandpackDraft) : null);
+    }),
+  set: (key, draft) =>
+    new Promise((resolve) => {
+      window.localStorage.setItem(KEY_PREFIX + key, JSON.stringify(draft));
+      resolve();
+    }),
+  remove: (key) =>
+    new Promise((resolve) => {
+      window.localStorage.removeItem(KEY_PREFIX + key);
+      resolve();
+    }),
+};
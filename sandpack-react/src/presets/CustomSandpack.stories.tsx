@@ -1,3 +1,4 @@
+import type { SandpackBundlerFiles } from "@codesandbox/sandpack-client";
 import React, { useEffect, useRef, useState } from "react";
 
 import { useSandpack } from "../hooks/useSandpack";
@@ -18,6 +19,7 @@ import {
   useActiveCode,
   useSandpackNavigation,
   SandpackStack,
+  ShareButton,
 } from "../";
 
 export default {
@@ -423,3 +425,115 @@ export const ResetButton: React.FC = () => (
     </SandpackProvider>
   </>
 );
+
+export const ControlledFiles: React.FC = () => {
+  const [files, setFiles] = useState<SandpackBundlerFiles>({
+    "/App.js": {
+      code: `export default function App() {
+  return <h1>Hello World</h1>
+}`,
+    },
+    "/styles.css": { code: "h1 { color: tomato; }" },
+  });
+  const [activePath, setActivePath] = useState("/App.js");
+  const [openPaths, setOpenPaths] = useState(["/App.js", "/styles.css"]);
+
+  return (
+    <>
+      <SandpackProvider
+        activePath={activePath}
+        files={files}
+        onActivePathChange={setActivePath}
+        onFilesChange={setFiles}
+        onOpenPathsChange={setOpenPaths}
+        openPaths={openPaths}
+        template="react"
+      >
+        <SandpackLayout>
+          <SandpackCodeEditor closableTabs />
+          <SandpackPreview />
+        </SandpackLayout>
+      </SandpackProvider>
+
+      <button
+        onClick={() =>
+          setFiles((prev) => ({
+            ...prev,
+            "/App.js": {
+              code: `export default function App() {
+  return <h1>Changed from outside</h1>
+}`,
+            },
+          }))
+        }
+        type="button"
+      >
+        Change App.js from outside
+      </button>
+      <pre>{JSON.stringify({ activePath, openPaths }, null, 2)}</pre>
+    </>
+  );
+};
+
+const UndoRedoButtons = () => {
+  const { sandpack } = useSandpack();
+
+  return (
+    <div className="sp-tabs">
+      <button
+        className="sp-tab-button"
+        disabled={!sandpack.canUndo}
+        onClick={sandpack.undo}
+        type="button"
+      >
+        Undo
+      </button>
+      <button
+        className="sp-tab-button"
+        disabled={!sandpack.canRedo}
+        onClick={sandpack.redo}
+        type="button"
+      >
+        Redo
+      </button>
+      <button
+        className="sp-tab-button"
+        onClick={() => sandpack.deleteFile(sandpack.activePath)}
+        type="button"
+      >
+        Delete current file
+      </button>
+      <button
+        className="sp-tab-button"
+        onClick={sandpack.resetAllFiles}
+        type="button"
+      >
+        Reset all files
+      </button>
+    </div>
+  );
+};
+
+export const UndoRedo: React.FC = () => (
+  <SandpackProvider template="react">
+    <SandpackLayout>
+      <SandpackStack>
+        <UndoRedoButtons />
+        <SandpackCodeEditor closableTabs showTabs />
+      </SandpackStack>
+      <SandpackPreview />
+    </SandpackLayout>
+  </SandpackProvider>
+);
+
+export const ShareableUrl: React.FC = () => (
+  <SandpackProvider template="react" hydrateFromURL>
+    <SandpackLayout>
+      <SandpackStack>
+        <ShareButton />
+        <SandpackCodeEditor closableTabs showTabs />
+      </SandpackStack>
+      <SandpackPreview />
+    </SandpackLayout>
+  </SandpackProvider>
+);
@@ -1,5 +1,7 @@
 import React from "react";
 
+import { createIndexedDBAdapter } from "../persistence";
+
 import { Sandpack } from "./Sandpack";
 
 export default {
@@ -133,6 +135,50 @@ export default () => {
 
 export const WithCustomLibrary: React.FC = () => <Sandpack template="react" />;
 
+export const PersistedEdits: React.FC = () => (
+  <Sandpack
+    options={{
+      persistence: { key: "persisted-edits-story" },
+      showTabs: true,
+    }}
+    template="react"
+  />
+);
+
+export const PersistedEditsInIndexedDB: React.FC = () => (
+  <Sandpack
+    options={{
+      persistence: {
+        key: "persisted-edits-story",
+        adapter: createIndexedDBAdapter(),
+        staleDraft: "restore",
+      },
+      showTabs: true,
+    }}
+    template="react"
+  />
+);
+
+export const EnvironmentVariables: React.FC = () => (
+  <Sandpack
+    environmentVariables={{
+      REACT_APP_GREETING: "Hello",
+      REACT_APP_API_KEY: { value: "not-exported", secret: true },
+    }}
+    files={{
+      "/.env": `REACT_APP_NAME="Sandpack"`,
+      "/App.js": `export default function App() {
+  return (
+    <h1>
+      {process.env.REACT_APP_GREETING} {process.env.REACT_APP_NAME}
+    </h1>
+  );
+}`,
+    }}
+    template="react"
+  />
+);
+
 export const RunnableComponent = (): React.ReactElement => (
   <Sandpack
     files={{
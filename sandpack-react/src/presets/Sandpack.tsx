@@ -1,4 +1,8 @@
 import { ClasserProvider } from "@code-hike/classer";
+import type {
+  SandpackEnvironmentVariables,
+  SandpackIframeSandboxToken,
+} from "@codesandbox/sandpack-client";
 import * as React from "react";
 
 import { SandpackLayout } from "../common/Layout";
@@ -10,8 +14,10 @@ import type { SandpackProviderProps } from "../contexts/sandpackContext";
 import { SandpackProvider } from "../contexts/sandpackContext";
 import type {
   FileResolver,
+  SandpackExportProviderProp,
   SandpackFiles,
   SandpackInitMode,
+  SandpackPersistence,
   SandpackPredefinedTemplate,
   SandpackSetup,
   SandpackThemeProp,
@@ -21,6 +27,7 @@ export interface SandpackProps {
   files?: SandpackFiles;
   template?: SandpackPredefinedTemplate;
   customSetup?: SandpackSetup;
+  environmentVariables?: SandpackEnvironmentVariables;
 
   theme?: SandpackThemeProp;
 
@@ -47,10 +54,20 @@ export interface SandpackProps {
     initMode?: SandpackInitMode;
 
     bundlerURL?: string;
+    fallbackBundlerURLs?: string[];
+    bundlerTimeout?: number;
+    bundlerRetries?: number;
+    bundlerRetryDelay?: number;
+    trustedOrigins?: string[];
     startRoute?: string;
     skipEval?: boolean;
     fileResolver?: FileResolver;
     externalResources?: string[];
+    exportProvider?: SandpackExportProviderProp;
+    persistence?: SandpackPersistence;
+    hydrateFromURL?: boolean;
+    sandbox?: SandpackIframeSandboxToken[];
+    allow?: string[];
 
     autorun?: boolean;
     recompileMode?: "immediate" | "delayed";
@@ -92,12 +109,23 @@ export const Sandpack: React.FC<SandpackProps> = (props) => {
     recompileMode: props.options?.recompileMode,
     recompileDelay: props.options?.recompileDelay,
     autorun: props.options?.autorun ?? true,
+    environmentVariables: props.environmentVariables,
     bundlerURL: props.options?.bundlerURL,
+    fallbackBundlerURLs: props.options?.fallbackBundlerURLs,
+    bundlerTimeout: props.options?.bundlerTimeout,
+    bundlerRetries: props.options?.bundlerRetries,
+    bundlerRetryDelay: props.options?.bundlerRetryDelay,
+    trustedOrigins: props.options?.trustedOrigins,
     startRoute: props.options?.startRoute,
     skipEval: props.options?.skipEval,
     fileResolver: props.options?.fileResolver,
     initMode: props.options?.initMode,
     externalResources: props.options?.externalResources,
+    exportProvider: props.options?.exportProvider,
+    persistence: props.options?.persistence,
+    hydrateFromURL: props.options?.hydrateFromURL,
+    sandbox: props.options?.sandbox,
+    allow: props.options?.allow,
   };
 
   // Parts are set as `flex` values, so they set the flex shrink/grow
@@ -1,4 +1,5 @@
 import { ClasserProvider } from "@code-hike/classer";
+import type { SandpackIframeSandboxToken } from "@codesandbox/sandpack-client";
 import * as React from "react";
 
 import { SandpackLayout } from "../common/Layout";
@@ -6,6 +7,7 @@ import { SandpackPreview } from "../components/Preview";
 import { SandpackProvider } from "../contexts/sandpackContext";
 import { SANDBOX_TEMPLATES } from "../templates";
 import type {
+  SandpackExportProviderProp,
   SandpackPredefinedTemplate,
   SandpackSetup,
   SandpackThemeProp,
@@ -21,6 +23,9 @@ export interface SandpackRunnerProps {
     bundlerUrl?: string;
     startRoute?: string;
     classes?: Record<string, string>;
+    exportProvider?: SandpackExportProviderProp;
+    sandbox?: SandpackIframeSandboxToken[];
+    allow?: string[];
   };
 }
 
@@ -50,8 +55,11 @@ export const SandpackRunner: React.FC<SandpackRunnerProps> = ({
 
   return (
     <SandpackProvider
+      allow={options?.allow}
       bundlerURL={options?.bundlerUrl}
       customSetup={userInput}
+      exportProvider={options?.exportProvider}
+      sandbox={options?.sandbox}
       startRoute={options?.startRoute}
       template={template}
     >
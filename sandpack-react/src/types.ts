@@ -1,9 +1,15 @@
+import type { EditorState as CodeMirrorState } from "@codemirror/state";
 import type {
   BundlerState,
+  ClientOptions,
   ListenerFunction,
+  SandpackClient,
+  SandpackBundlerFile,
   SandpackBundlerFiles,
+  SandpackEnvironmentVariables,
   SandpackError,
   SandpackMessage,
+  SandpackNotificationType,
   UnsubscribeFunction,
 } from "@codesandbox/sandpack-client";
 import type { ITemplate } from "codesandbox-import-util-types";
@@ -30,22 +36,110 @@ export interface SandpackState {
   startRoute?: string;
   editorState: EditorState;
   error: SandpackError | null;
+  /**
+   * Errors and warnings of the last compilation of every client, by client id
+   */
+  errors: Record<string, SandpackError[]>;
+  /**
+   * Where the editor places the cursor, set when a file is opened at a given line
+   */
+  cursorPosition: SandpackCursorPosition | null;
+  /**
+   * Warnings and info from the bundlers, they stay until they are dismissed
+   */
+  notifications: SandpackNotification[];
   files: SandpackBundlerFiles;
+  /**
+   * Files that only exist in the `fileResolver`, they are read into `files` once opened.
+   * Only the directories listed so far are known, the directories end with a `/`
+   */
+  fileResolverPaths: string[];
+  /**
+   * Directories made with `createDirectory`, ending with a `/`. The rest of them
+   * are implied by the paths of the files
+   */
+  directories: string[];
+  /**
+   * Template the files are based on, the one of the shareable URL when the
+   * provider was hydrated from it
+   */
+  template?: SandpackPredefinedTemplate;
   environment?: SandboxEnvironment;
+  /**
+   * Variables of the provider, on top of the ones of the `/.env` files
+   */
+  environmentVariables: SandpackEnvironmentVariables;
   status: SandpackStatus;
+  /**
+   * Which bundler is being loaded, when there are retries or fallback bundlers
+   */
+  bundlerAttempt: SandpackBundlerAttempt;
   initMode: SandpackInitMode;
+  exportProvider: SandpackExportProvider;
+  /**
+   * Clients of the bundlers that are running, by client id
+   */
+  clients: Record<string, SandpackClient>;
+  /**
+   * Draft of the `persistence` option, restored or saved since the provider was mounted
+   */
+  draft: SandpackDraftState | null;
+  /**
+   * Whether there are file operations (edits, deletes, resets...) to undo or redo
+   */
+  canUndo: boolean;
+  canRedo: boolean;
 
   runSandpack: () => void;
-  registerBundler: (iframe: HTMLIFrameElement, clientId: string) => void;
+  registerBundler: (
+    iframe: HTMLIFrameElement,
+    clientId: string,
+    permissions?: SandpackIframePermissions
+  ) => void;
   unregisterBundler: (clientId: string) => void;
   updateFile: (path: string, newCode: string) => void;
   updateCurrentFile: (newCode: string) => void;
-  openFile: (path: string) => void;
+  /**
+   * Adds a file, empty by default, and opens it
+   */
+  createFile: (path: string, code?: string) => void;
+  /**
+   * Renames a file in its directory, or a directory when the path ends with a `/`
+   */
+  renameFile: (path: string, newName: string) => void;
+  /**
+   * Moves a file, or a directory when the path ends with a `/`, into another directory
+   */
+  moveFile: (path: string, directory: string) => void;
+  createDirectory: (path: string) => void;
+  /**
+   * Deletes the directory along with all of its files
+   */
+  deleteDirectory: (path: string) => void;
+  /**
+   * Adds the entries of a directory of the `fileResolver` to `fileResolverPaths`,
+   * the root is listed on mount. A directory is only listed once
+   */
+  listFileResolverDirectory: (directory: string) => void;
+  openFile: (path: string, position?: SandpackFilePosition) => void;
   closeFile: (path: string) => void;
   deleteFile: (path: string) => void;
   setActiveFile: (path: string) => void;
   resetFile: (path: string) => void;
+  /**
+   * Also removes the draft of the `persistence` option
+   */
   resetAllFiles: () => void;
+  /**
+   * Reverts the last file operation, whichever file it changed, and shows that file
+   */
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Loads the bundlers again from the first attempt, eg: after a timeout
+   */
+  retryBundler: () => void;
+  dismissNotification: (id: string) => void;
 
   // Element refs
   // Different components inside the SandpackProvider might register certain elements of interest for sandpack
@@ -58,12 +152,89 @@ export interface SandpackState {
   errorScreenRegisteredRef: React.MutableRefObject<boolean>;
   openInCSBRegisteredRef: React.MutableRefObject<boolean>;
   loadingScreenRegisteredRef: React.MutableRefObject<boolean>;
+
+  // The state of the editor of every file, so its history is still there when the tab is opened again
+  codeEditorStatesRef: React.MutableRefObject<Record<string, CodeMirrorState>>;
+}
+
+export interface SandpackFilePosition {
+  line: number;
+  column?: number;
+}
+
+export interface SandpackCursorPosition extends SandpackFilePosition {
+  path: string;
+}
+
+export interface SandpackNotification {
+  id: string;
+  clientId: string;
+  type: Exclude<SandpackNotificationType, "error">;
+  title: string;
+  message?: string;
+  timestamp: number;
+}
+
+/**
+ * Overrides the `sandbox` tokens and the `allow` policy of the provider for a single iframe
+ */
+export type SandpackIframePermissions = Pick<
+  ClientOptions,
+  "sandbox" | "allow"
+>;
+
+export type SandpackFileOperation =
+  | "edit"
+  | "create"
+  | "delete"
+  | "rename"
+  | "move"
+  | "reset";
+
+/**
+ * Content of the paths changed by a file operation, `undefined` where there's no file
+ */
+export type SandpackFilesPatch = Record<
+  string,
+  SandpackBundlerFile | undefined
+>;
+
+export interface SandpackHistoryEntry {
+  operation: SandpackFileOperation;
+  before: SandpackFilesPatch;
+  after: SandpackFilesPatch;
+  /**
+   * Created directories on each side, when the operation changed them
+   */
+  directories?: { before: string[]; after: string[] };
+  /**
+   * New path of each path moved by the operation, the editor states follow them
+   */
+  movedPaths?: Record<string, string>;
+  timestamp: number;
 }
 
+export interface SandpackBundlerAttempt {
+  /**
+   * Starts at 1, for the first load of `bundlerURL`
+   */
+  attempt: number;
+  maxAttempts: number;
+  /**
+   * Bundler loaded by this attempt, `undefined` for the default one
+   */
+  bundlerURL?: string;
+}
+
+/**
+ * `retrying` is the wait between a bundler that timed out and the next attempt,
+ * `timeout` is set once every attempt timed out
+ */
 export type SandpackStatus =
   | "initial"
   | "idle"
   | "running"
+  | "retrying"
   | "timeout"
   | "done";
 export type EditorState = "pristine" | "dirty";
@@ -78,9 +249,18 @@ export interface SandboxTemplate {
 }
 
 export interface SandpackFile {
-  code: string;
+  /**
+   * Binary files (images, fonts, wasm...) can pass their content as a `Uint8Array`,
+   * or as a base64 string with `isBinary` set
+   */
+  code: string | Uint8Array;
   hidden?: boolean;
   active?: boolean;
+  isBinary?: boolean;
+  /**
+   * Inferred from the file extension for binary files when omitted
+   */
+  mimeType?: string;
 }
 
 export type SandpackFiles = Record<string, string | SandpackFile>;
@@ -93,6 +273,17 @@ export interface SandpackSetup {
   environment?: SandboxEnvironment;
 }
 
+/**
+ * What a shareable URL holds of a sandbox: a setup that is merged with the
+ * template like the `customSetup`, and the files that were open
+ */
+export interface SandpackShareableState extends SandpackSetup {
+  template?: SandpackPredefinedTemplate;
+  devDependencies?: Record<string, string>;
+  activePath?: string;
+  openPaths?: string[];
+}
+
 /**
  * `immediate`: It immediately mounts all components, such as the code-editor
  * and the preview - this option might overload the memory usage
@@ -189,6 +380,143 @@ export type SandpackThemeProp =
   | SandpackPartialTheme
   | "auto";
 
+export type SandpackPredefinedExportProvider =
+  | "codesandbox"
+  | "stackblitz"
+  | "zip";
+
+export interface SandpackExportData {
+  files: SandpackBundlerFiles;
+  environment?: SandboxEnvironment;
+  activePath: string;
+  /**
+   * The secret ones (and `/.env.local`) are not meant to leave the sandbox, see
+   * `removeSecretEnvironmentVariables`
+   */
+  environmentVariables?: SandpackEnvironmentVariables;
+}
+
+/**
+ * `link`: opens the url in a new tab;
+ *
+ * `form`: submits the fields as a POST request to the url, in a new tab;
+ *
+ * `download`: saves the content as a file on the user's device.
+ */
+export type SandpackExportResult =
+  | { type: "link"; url: string }
+  | { type: "form"; url: string; fields: Record<string, string> }
+  | { type: "download"; fileName: string; content: Blob };
+
+export interface SandpackExportProvider {
+  name: string;
+  /**
+   * Used as the label of the export button, eg: "Open in CodeSandbox"
+   */
+  title: string;
+  icon?: () => React.ReactElement;
+  export: (
+    data: SandpackExportData
+  ) => SandpackExportResult | Promise<SandpackExportResult>;
+}
+
+export type SandpackExportProviderProp =
+  | SandpackPredefinedExportProvider
+  | SandpackExportProvider;
+
+/**
+ * Edits saved by the `persistence` option of the provider
+ */
+export interface SandpackDraft {
+  files: SandpackBundlerFiles;
+  activePath: string;
+  openPaths: string[];
+  /**
+   * Hash of the original files when the draft was saved, a different one means
+   * they changed since then and the draft is stale
+   */
+  setupHash: string;
+  savedAt: number;
+}
+
+/**
+ * Where the drafts are stored, see `localStorageAdapter` and `createIndexedDBAdapter`
+ */
+export interface SandpackPersistenceAdapter {
+  get: (key: string) => Promise<SandpackDraft | null>;
+  set: (key: string, draft: SandpackDraft) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface SandpackPersistence {
+  /**
+   * Identifies the sandbox in the storage, it must be unique on the page
+   */
+  key: string;
+  /**
+   * `localStorageAdapter` by default
+   */
+  adapter?: SandpackPersistenceAdapter;
+  /**
+   * What happens to a draft saved before the original files changed: it's
+   * discarded by default, or restored and flagged with `isStale`
+   */
+  staleDraft?: "discard" | "restore";
+  /**
+   * Time in milliseconds between the last change and the save, 500 by default
+   */
+  saveDelay?: number;
+}
+
+export interface SandpackDraftState {
+  savedAt: number;
+  /**
+   * The original files changed since the draft was saved
+   */
+  isStale: boolean;
+}
+
+export interface ModuleGraphNode {
+  path: string;
+  isEntry: boolean;
+  /**
+   * Files of the sandbox that this module imports
+   */
+  importees: string[];
+  /**
+   * Files of the sandbox imported with a dynamic `import()`, also included in `importees`
+   */
+  asyncImportees: string[];
+  /**
+   * Files of the sandbox that import this module
+   */
+  importers: string[];
+  /**
+   * npm packages imported by this module
+   */
+  packages: string[];
+}
+
+export interface ModuleGraph {
+  entry: string | null;
+  /**
+   * Only the modules of the sandbox files, the modules of the dependencies
+   * are grouped by package in `packages`
+   */
+  modules: Record<string, ModuleGraphNode>;
+  /**
+   * Groups of modules that import each other, directly or through other modules
+   */
+  cycles: string[][];
+  /**
+   * Source files that can't be reached from the entry
+   */
+  unusedFiles: string[];
+  packages: string[];
+  getImporters: (path: string, options?: { transitive?: boolean }) => string[];
+  getImportees: (path: string, options?: { transitive?: boolean }) => string[];
+}
+
 /**
  * @hidden
  */
@@ -196,7 +524,11 @@ export type DeepPartial<Type> = {
   [Property in keyof Type]?: DeepPartial<Type[Property]>;
 };
 
-export interface FileResolver {
-  isFile: (path: string) => Promise<boolean>;
-  readFile: (path: string) => Promise<string>;
-}
+export type {
+  FileResolver,
+  FileResolverChange,
+  FileResolverStat,
+  SandpackError,
+  SandpackErrorFrame,
+  SandpackErrorSeverity,
+} from "@codesandbox/sandpack-client";
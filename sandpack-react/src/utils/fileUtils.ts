@@ -0,0 +1,191 @@
+import type {
+  SandpackBundlerFile,
+  SandpackBundlerFiles,
+} from "@codesandbox/sandpack-client";
+
+import type { FileResolver, SandpackFilesPatch } from "../types";
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+  wasm: "application/wasm",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  pdf: "application/pdf",
+  zip: "application/zip",
+};
+
+export const getMimeType = (filePath: string): string => {
+  const extension = filePath.slice(filePath.lastIndexOf(".") + 1).toLowerCase();
+
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+};
+
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  // Chunked, spreading a large file at once into `fromCharCode` overflows the call stack
+  const CHUNK_SIZE = 0x8000;
+  let binary = "";
+
+  for (let index = 0; index < bytes.length; index += CHUNK_SIZE) {
+    binary += String.fromCharCode(
+      ...Array.from(bytes.subarray(index, index + CHUNK_SIZE))
+    );
+  }
+
+  return btoa(binary);
+};
+
+export const decodeBase64 = (code: string): Uint8Array =>
+  Uint8Array.from(atob(code), (char) => char.charCodeAt(0));
+
+export const getBinaryFileURL = (code: string, mimeType?: string): string =>
+  `data:${mimeType || "application/octet-stream"};base64,${code}`;
+
+// Listing these would show thousands of files that are never opened in the editor
+const IGNORED_DIRECTORIES = ["node_modules", ".git"];
+
+/**
+ * Entries of a single directory of the file resolver, the directories end with a `/`.
+ * The ones inside are only listed once they are needed, eg: expanded in the explorer
+ */
+export const listFileResolverDirectory = async (
+  fileResolver: FileResolver,
+  directory: string
+): Promise<string[]> => {
+  if (!fileResolver.readdir || !fileResolver.stat) {
+    return [];
+  }
+
+  const entries = await fileResolver.readdir(directory);
+
+  return Promise.all(
+    entries
+      .filter((entry) => !IGNORED_DIRECTORIES.includes(entry))
+      .map(async (entry) => {
+        const path = `${directory}${entry}`;
+        const stat = await fileResolver.stat?.(path);
+
+        return stat?.type === "directory" ? `${path}/` : path;
+      })
+  );
+};
+
+const isSameFile = (
+  file?: SandpackBundlerFile,
+  newFile?: SandpackBundlerFile
+): boolean =>
+  file?.code === newFile?.code && !!file?.isBinary === !!newFile?.isBinary;
+
+/**
+ * The paths that are different between two versions of the files, with their
+ * content on each side
+ */
+export const getFilesPatch = (
+  files: SandpackBundlerFiles,
+  newFiles: SandpackBundlerFiles
+): { before: SandpackFilesPatch; after: SandpackFilesPatch } =>
+  Object.keys({ ...files, ...newFiles }).reduce(
+    (acc, path) => {
+      if (!isSameFile(files[path], newFiles[path])) {
+        acc.before[path] = files[path];
+        acc.after[path] = newFiles[path];
+      }
+
+      return acc;
+    },
+    { before: {} as SandpackFilesPatch, after: {} as SandpackFilesPatch }
+  );
+
+/**
+ * Writes the content of a patch over the files, removing the paths without one
+ */
+export const applyFilesPatch = (
+  files: SandpackBundlerFiles,
+  patch: SandpackFilesPatch
+): SandpackBundlerFiles =>
+  Object.keys(patch).reduce(
+    (acc: SandpackBundlerFiles, path) => {
+      const file = patch[path];
+      if (file) {
+        acc[path] = file;
+      } else {
+        delete acc[path];
+      }
+
+      return acc;
+    },
+    { ...files }
+  );
+
+/**
+ * New path of every file once a path is moved: the files of a directory, whose
+ * path ends with a `/`, are moved along with it
+ */
+export const getMovedPath =
+  (path: string, newPath: string) =>
+  (filePath: string): string => {
+    if (path.endsWith("/")) {
+      return filePath.startsWith(path)
+        ? newPath + filePath.slice(path.length)
+        : filePath;
+    }
+
+    return filePath === path ? newPath : filePath;
+  };
+
+/**
+ * Points the `main` field of the package.json to the new path of the entry,
+ * in the same format (`/index.js`, `./index.js` or `index.js`)
+ */
+export const updatePackageJSONMain = (
+  files: SandpackBundlerFiles,
+  getNewPath: (path: string) => string
+): SandpackBundlerFiles => {
+  const packageJSON = files["/package.json"];
+  if (!packageJSON || packageJSON.isBinary) {
+    return files;
+  }
+
+  try {
+    const content = JSON.parse(packageJSON.code);
+    if (typeof content.main !== "string") {
+      return files;
+    }
+
+    const prefix = content.main.match(/^\.?\/?/)[0];
+    const main = `/${content.main.slice(prefix.length)}`;
+    const newMain = getNewPath(main);
+    if (newMain === main) {
+      return files;
+    }
+
+    return {
+      ...files,
+      "/package.json": {
+        ...packageJSON,
+        code: JSON.stringify(
+          { ...content, main: prefix + newMain.slice(1) },
+          null,
+          2
+        ),
+      },
+    };
+  } catch {
+    // The package.json is being edited, it's left as it is
+    return files;
+  }
+};
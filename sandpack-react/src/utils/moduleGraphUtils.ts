@@ -0,0 +1,249 @@
+import type {
+  BundlerState,
+  SandpackBundlerFiles,
+  TranspiledModule,
+} from "@codesandbox/sandpack-client";
+
+import type { ModuleGraph, ModuleGraphNode } from "../types";
+
+const NODE_MODULES = "/node_modules/";
+
+// Files that are evaluated as modules, the rest (html, json, markdown...) are read by the bundler in other ways
+const SOURCE_FILE = /\.(jsx?|tsx?|mjs|cjs|vue|svelte|css|scss|sass|less)$/;
+
+interface MutableNode {
+  isEntry: boolean;
+  importees: Set<string>;
+  asyncImportees: Set<string>;
+  importers: Set<string>;
+  packages: Set<string>;
+}
+
+export const getPackageName = (path: string): string => {
+  const [scope, name] = path.slice(NODE_MODULES.length).split("/");
+
+  return scope.startsWith("@") ? `${scope}/${name}` : scope;
+};
+
+/**
+ * Transpiled modules are identified by their path and the query of the loaders, eg: `/index.js:`
+ */
+const getModulePath = (
+  transpiledModules: Record<string, TranspiledModule>,
+  id: string
+): string => transpiledModules[id]?.module.path ?? id.replace(/:[^/]*$/, "");
+
+const sortUnique = (values: Iterable<string>): string[] =>
+  Array.from(new Set(values)).sort();
+
+const traverse = (
+  modules: Record<string, ModuleGraphNode>,
+  path: string,
+  getNext: (node: ModuleGraphNode) => string[]
+): string[] => {
+  const visited = new Set<string>();
+  const queue = modules[path] ? [...getNext(modules[path])] : [];
+
+  for (let index = 0; index < queue.length; index++) {
+    const current = queue[index];
+    if (visited.has(current)) {
+      continue;
+    }
+
+    visited.add(current);
+    if (modules[current]) {
+      queue.push(...getNext(modules[current]));
+    }
+  }
+
+  visited.delete(path);
+
+  return Array.from(visited).sort();
+};
+
+/**
+ * Tarjan's strongly connected components, every component with more than one
+ * module (or a module that imports itself) is a cycle
+ */
+const getCycles = (modules: Record<string, ModuleGraphNode>): string[][] => {
+  let nextIndex = 0;
+  const indexes: Record<string, number> = {};
+  const lowLinks: Record<string, number> = {};
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const connect = (path: string): void => {
+    indexes[path] = nextIndex;
+    lowLinks[path] = nextIndex;
+    nextIndex++;
+    stack.push(path);
+    onStack.add(path);
+
+    modules[path].importees.forEach((importee) => {
+      if (indexes[importee] === undefined) {
+        connect(importee);
+        lowLinks[path] = Math.min(lowLinks[path], lowLinks[importee]);
+      } else if (onStack.has(importee)) {
+        lowLinks[path] = Math.min(lowLinks[path], indexes[importee]);
+      }
+    });
+
+    if (lowLinks[path] !== indexes[path]) {
+      return;
+    }
+
+    const component: string[] = [];
+    let member: string | undefined;
+    do {
+      member = stack.pop();
+      if (member !== undefined) {
+        onStack.delete(member);
+        component.push(member);
+      }
+    } while (member !== undefined && member !== path);
+
+    if (component.length > 1 || modules[path].importees.includes(path)) {
+      cycles.push(component.sort());
+    }
+  };
+
+  Object.keys(modules)
+    .sort()
+    .forEach((path) => {
+      if (indexes[path] === undefined) {
+        connect(path);
+      }
+    });
+
+  return cycles;
+};
+
+/**
+ * Normalizes the transpiled modules of the bundler into a graph of the sandbox
+ * files, the modules of the dependencies are only kept as the packages that
+ * each file imports
+ */
+export const getModuleGraph = (
+  bundlerState: BundlerState | undefined,
+  files: SandpackBundlerFiles
+): ModuleGraph => {
+  const transpiledModules = bundlerState?.transpiledModules ?? {};
+  const entry = bundlerState?.entry ?? null;
+  const nodes: Record<string, MutableNode> = {};
+  const testFiles: string[] = [];
+
+  const getNode = (path: string): MutableNode => {
+    if (!nodes[path]) {
+      nodes[path] = {
+        isEntry: path === entry,
+        importees: new Set(),
+        asyncImportees: new Set(),
+        importers: new Set(),
+        packages: new Set(),
+      };
+    }
+
+    return nodes[path];
+  };
+
+  Object.values(transpiledModules).forEach((tModule) => {
+    const { path } = tModule.module;
+    if (path.startsWith(NODE_MODULES)) {
+      return;
+    }
+
+    const node = getNode(path);
+    node.isEntry = node.isEntry || tModule.isEntry;
+    if (tModule.isTestFile) {
+      testFiles.push(path);
+    }
+
+    const addImportee = (id: string, isAsync: boolean) => {
+      const importee = getModulePath(transpiledModules, id);
+      if (importee.startsWith(NODE_MODULES)) {
+        node.packages.add(getPackageName(importee));
+        return;
+      }
+
+      node.importees.add(importee);
+      if (isAsync) {
+        node.asyncImportees.add(importee);
+      }
+
+      getNode(importee).importers.add(path);
+    };
+
+    tModule.dependencies.forEach((id) => addImportee(id, false));
+    tModule.asyncDependencies.forEach((id) => addImportee(id, true));
+
+    // The initiators are the other side of the same relation, but the module that
+    // imports this one might not have been transpiled yet
+    tModule.initiators.forEach((id) => {
+      const importer = getModulePath(transpiledModules, id);
+      if (!importer.startsWith(NODE_MODULES)) {
+        node.importers.add(importer);
+        getNode(importer).importees.add(path);
+      }
+    });
+  });
+
+  const modules = Object.keys(nodes).reduce(
+    (acc: Record<string, ModuleGraphNode>, path) => {
+      const node = nodes[path];
+      acc[path] = {
+        path,
+        isEntry: node.isEntry,
+        importees: sortUnique(node.importees),
+        asyncImportees: sortUnique(node.asyncImportees),
+        importers: sortUnique(node.importers),
+        packages: sortUnique(node.packages),
+      };
+
+      return acc;
+    },
+    {}
+  );
+
+  const getImportees = (path: string, { transitive = false } = {}) =>
+    transitive
+      ? traverse(modules, path, (node) => node.importees)
+      : modules[path]?.importees ?? [];
+
+  const getImporters = (path: string, { transitive = false } = {}) =>
+    transitive
+      ? traverse(modules, path, (node) => node.importers)
+      : modules[path]?.importers ?? [];
+
+  const roots = Object.keys(modules).filter(
+    (path) => modules[path].isEntry || testFiles.includes(path)
+  );
+  const reachable = new Set(
+    roots.reduce(
+      (acc: string[], path) =>
+        acc.concat(path, getImportees(path, { transitive: true })),
+      []
+    )
+  );
+  // Nothing is reachable before the first compilation, which doesn't make every file unused
+  const unusedFiles = bundlerState
+    ? Object.keys(files)
+        .filter((path) => SOURCE_FILE.test(path) && !reachable.has(path))
+        .sort()
+    : [];
+
+  return {
+    entry,
+    modules,
+    cycles: getCycles(modules),
+    unusedFiles,
+    packages: sortUnique(
+      Object.values(modules).reduce(
+        (acc: string[], node) => acc.concat(node.packages),
+        []
+      )
+    ),
+    getImporters,
+    getImportees,
+  };
+};
@@ -0,0 +1,311 @@
+import type { SandpackBundlerFiles } from "@codesandbox/sandpack-client";
+
+import type { SandboxEnvironment, SandpackExportData } from "../types";
+
+interface PackageJSON {
+  name?: string;
+  main?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+interface ProjectScaffold {
+  scripts: Record<string, string>;
+  devDependencies: Record<string, string>;
+  files: SandpackBundlerFiles;
+}
+
+const README = `# Sandpack project
+
+This project was exported from [Sandpack](https://sandpack.codesandbox.io).
+
+## Getting started
+
+\`\`\`
+npm install
+npm start
+\`\`\`
+`;
+
+const getIndexHTML = (body: string): string => `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Sandpack project</title>
+  </head>
+  <body>
+    ${body}
+  </body>
+</html>
+`;
+
+const ANGULAR_JSON = JSON.stringify(
+  {
+    version: 1,
+    newProjectRoot: "projects",
+    projects: {
+      sandbox: {
+        projectType: "application",
+        root: "",
+        sourceRoot: "src",
+        prefix: "app",
+        architect: {
+          build: {
+            builder: "@angular-devkit/build-angular:browser",
+            options: {
+              outputPath: "dist",
+              index: "src/index.html",
+              main: "src/main.ts",
+              polyfills: "src/polyfills.ts",
+              tsConfig: "tsconfig.json",
+              aot: true,
+            },
+          },
+          serve: {
+            builder: "@angular-devkit/build-angular:dev-server",
+            options: { browserTarget: "sandbox:build" },
+          },
+        },
+      },
+    },
+    defaultProject: "sandbox",
+  },
+  null,
+  2
+);
+
+const ANGULAR_TSCONFIG = JSON.stringify(
+  {
+    compilerOptions: {
+      target: "es2015",
+      module: "es2020",
+      moduleResolution: "node",
+      lib: ["es2018", "dom"],
+      experimentalDecorators: true,
+      importHelpers: true,
+    },
+    files: ["src/main.ts", "src/polyfills.ts"],
+  },
+  null,
+  2
+);
+
+const SVELTE_VITE_CONFIG = `import { defineConfig } from "vite";
+import { svelte } from "@sveltejs/vite-plugin-svelte";
+
+export default defineConfig({
+  plugins: [svelte()],
+});
+`;
+
+const parsePackageJSON = (files: SandpackBundlerFiles): PackageJSON | null => {
+  try {
+    return JSON.parse(files["/package.json"].code);
+  } catch {
+    return null;
+  }
+};
+
+const hasFile = (files: SandpackBundlerFiles, path: string): boolean =>
+  !!files[path] || !!files[path.replace(/^\//, "")];
+
+/**
+ * create-react-app only compiles the files inside `/src`, while the sandpack
+ * templates can have the source files in the root of the project
+ */
+const moveSourceFilesToSrc = (
+  files: SandpackBundlerFiles
+): SandpackBundlerFiles => {
+  const hasSrcEntry = Object.keys(files).some((path) =>
+    /^\/src\/index\.[jt]sx?$/.test(path)
+  );
+  if (hasSrcEntry) {
+    return files;
+  }
+
+  return Object.keys(files).reduce((acc: SandpackBundlerFiles, path) => {
+    const absolutePath = path.replace(/^\/?/, "/");
+    const isConfigFile = /^\/([^/]+\.(json|md)|\.[^/]+)$/.test(absolutePath);
+    const isInRootFolder = /^\/(src|public)\//.test(absolutePath);
+
+    acc[isConfigFile || isInRootFolder ? path : `/src${absolutePath}`] =
+      files[path];
+
+    return acc;
+  }, {});
+};
+
+const getScaffold = (
+  environment: SandboxEnvironment | undefined,
+  files: SandpackBundlerFiles,
+  packageJSON: PackageJSON
+): ProjectScaffold => {
+  const dependencies = packageJSON.dependencies ?? {};
+  const entry = (packageJSON.main ?? "/index.js").replace(/^\/?/, "/");
+
+  switch (environment) {
+    case "create-react-app":
+    case "create-react-app-typescript":
+      return {
+        scripts: {
+          start: "react-scripts start",
+          build: "react-scripts build",
+          test: "react-scripts test",
+        },
+        devDependencies: dependencies["react-scripts"]
+          ? {}
+          : { "react-scripts": "^4.0.0" },
+        files: hasFile(files, "/public/index.html")
+          ? {}
+          : {
+              "/public/index.html": {
+                code: getIndexHTML('<div id="root"></div>'),
+              },
+            },
+      };
+
+    case "vue-cli":
+      return {
+        scripts: {
+          start: "vue-cli-service serve",
+          serve: "vue-cli-service serve",
+          build: "vue-cli-service build",
+        },
+        devDependencies: {
+          "@vue/cli-service": "^4.5.0",
+          ...(/^[\^~]?3/.test(dependencies.vue ?? "")
+            ? { "@vue/compiler-sfc": dependencies.vue }
+            : { "vue-template-compiler": dependencies.vue ?? "^2.6.11" }),
+        },
+        files: hasFile(files, "/public/index.html")
+          ? {}
+          : {
+              "/public/index.html": {
+                code: getIndexHTML('<div id="app"></div>'),
+              },
+            },
+      };
+
+    case "angular-cli":
+      return {
+        scripts: { start: "ng serve", build: "ng build" },
+        devDependencies: {
+          "@angular/cli": "~11.2.0",
+          "@angular/compiler-cli": "~11.2.0",
+          "@angular-devkit/build-angular": "~0.1102.0",
+          typescript: "~4.1.5",
+        },
+        files: {
+          ...(hasFile(files, "/angular.json")
+            ? {}
+            : { "/angular.json": { code: ANGULAR_JSON } }),
+          ...(hasFile(files, "/tsconfig.json")
+            ? {}
+            : { "/tsconfig.json": { code: ANGULAR_TSCONFIG } }),
+        },
+      };
+
+    case "svelte":
+      return {
+        scripts: { start: "vite", build: "vite build" },
+        devDependencies: {
+          vite: "^3.0.0",
+          "@sveltejs/vite-plugin-svelte": "^1.0.0",
+        },
+        files: {
+          ...(hasFile(files, "/vite.config.js")
+            ? {}
+            : { "/vite.config.js": { code: SVELTE_VITE_CONFIG } }),
+          // Vite serves the index.html from the root, as a module entry
+          ...(hasFile(files, "/index.html")
+            ? {}
+            : {
+                "/index.html": {
+                  code: getIndexHTML(
+                    `<script type="module" src="${entry}"></script>`
+                  ),
+                },
+              }),
+        },
+      };
+
+    // Every other environment is bundled with the same config as Parcel
+    default:
+      return {
+        scripts: {
+          start: "parcel index.html --open",
+          build: "parcel build index.html",
+        },
+        devDependencies: { "parcel-bundler": "^1.12.5" },
+        files: hasFile(files, "/index.html")
+          ? {}
+          : {
+              "/index.html": {
+                code: getIndexHTML(
+                  `<div id="app"></div>\n    <script src="${entry.slice(
+                    1
+                  )}"></script>`
+                ),
+              },
+            },
+      };
+  }
+};
+
+/**
+ * Adds what is needed to run the sandbox outside of Sandpack, with `npm install && npm start`:
+ * the scripts and dev dependencies of the environment, its config files and a README
+ */
+export const getRunnableProjectFiles = ({
+  files,
+  environment,
+}: SandpackExportData): SandpackBundlerFiles => {
+  const isCreateReactApp =
+    environment === "create-react-app" ||
+    environment === "create-react-app-typescript";
+  const projectFiles = isCreateReactApp ? moveSourceFilesToSrc(files) : files;
+
+  const packageJSON = parsePackageJSON(projectFiles);
+  // An invalid package.json is kept as it is, so the user gets the same error as in the sandbox
+  if (!packageJSON) {
+    return hasFile(projectFiles, "/README.md")
+      ? projectFiles
+      : { ...projectFiles, "/README.md": { code: README } };
+  }
+
+  const scaffold = getScaffold(environment, projectFiles, packageJSON);
+  const devDependencies = Object.keys(scaffold.devDependencies).reduce(
+    (acc: Record<string, string>, name) => {
+      if (!packageJSON.dependencies?.[name]) {
+        acc[name] = scaffold.devDependencies[name];
+      }
+
+      return acc;
+    },
+    { ...packageJSON.devDependencies }
+  );
+
+  const runnablePackageJSON: PackageJSON = {
+    ...packageJSON,
+    // The scripts of the user have precedence over the ones of the environment
+    scripts: { ...scaffold.scripts, ...packageJSON.scripts },
+    devDependencies,
+  };
+
+  if (isCreateReactApp) {
+    // react-scripts always starts from src/index, the entry of the sandbox no longer applies
+    delete runnablePackageJSON.main;
+  }
+
+  return {
+    ...projectFiles,
+    ...scaffold.files,
+    "/package.json": { code: JSON.stringify(runnablePackageJSON, null, 2) },
+    ...(hasFile(projectFiles, "/README.md")
+      ? null
+      : { "/README.md": { code: README } }),
+  };
+};
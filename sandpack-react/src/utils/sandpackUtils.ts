@@ -13,6 +13,8 @@ import type {
   SandpackSetup,
 } from "../types";
 
+import { encodeBase64, getMimeType } from "./fileUtils";
+
 export interface SandpackContextInfo {
   activePath: string;
   openPaths: string[];
@@ -25,12 +27,14 @@ export const getSandpackStateFromProps = (
 ): SandpackContextInfo => {
   // Merge predefined template with custom setup
   const projectSetup = getSetup(props.template, props.customSetup);
+  // The files of the props replace the ones of the setup entirely
+  const setupFiles = props.files ?? projectSetup.files;
 
   // openPaths and activePath override the setup flags
-  let openPaths = props.openPaths ?? [];
+  let openPaths = [...(props.openPaths ?? [])];
   let activePath = props.activePath;
 
-  if (openPaths.length === 0 && props.customSetup?.files) {
+  if (openPaths.length === 0 && !props.files && props.customSetup?.files) {
     const inputFiles = props.customSetup.files;
 
     // extract open and active files from the custom input files
@@ -56,12 +60,15 @@ export const getSandpackStateFromProps = (
 
   if (openPaths.length === 0) {
     // If no files are received, use the project setup / template
-    openPaths = Object.keys(projectSetup.files);
+    openPaths = Object.keys(setupFiles);
   }
 
-  // If no activePath is specified, use the first open file
+  // If no activePath is specified, use the main file, or the first open file
   if (!activePath) {
-    activePath = projectSetup.main || openPaths[0];
+    activePath =
+      projectSetup.main && setupFiles[projectSetup.main]
+        ? projectSetup.main
+        : openPaths[0];
   }
 
   // If for whatever reason the active path was not set as open, set it
@@ -69,14 +76,14 @@ export const getSandpackStateFromProps = (
     openPaths.push(activePath);
   }
 
-  if (!projectSetup.files[activePath]) {
+  if (!setupFiles[activePath]) {
     throw new Error(
       `${activePath} was set as the active file but was not provided`
     );
   }
 
   const files = addPackageJSONIfNeeded(
-    projectSetup.files,
+    setupFiles,
     projectSetup.dependencies || {},
     projectSetup.devDependencies || {},
     projectSetup.entry
@@ -87,6 +94,45 @@ export const getSandpackStateFromProps = (
   return { openPaths, activePath, files, environment };
 };
 
+// The files with a package.json, by the `files` prop they were made from
+const controlledFilesCache = new WeakMap<
+  SandpackBundlerFiles,
+  { setupKey: string; files: SandpackBundlerFiles }
+>();
+
+/**
+ * Files of a provider that controls them: the `files` prop as it is, unless it
+ * needs the package.json of the template or the custom setup. The same prop
+ * gives back the same object, as it's read on every render of the provider
+ */
+export const getControlledFiles = (
+  props: SandpackProviderProps
+): SandpackBundlerFiles => {
+  const files = props.files ?? {};
+  if (files["/package.json"]) {
+    return files;
+  }
+
+  const { template, customSetup } = props;
+  // Only the dependencies and the entry end up in the package.json
+  const setupKey = JSON.stringify([template, { ...customSetup, files: null }]);
+  const cached = controlledFilesCache.get(files);
+  if (cached?.setupKey === setupKey) {
+    return cached.files;
+  }
+
+  const projectSetup = getSetup(template, customSetup);
+  const controlledFiles = addPackageJSONIfNeeded(
+    files,
+    projectSetup.dependencies || {},
+    projectSetup.devDependencies || {},
+    projectSetup.entry
+  );
+  controlledFilesCache.set(files, { setupKey, files: controlledFiles });
+
+  return controlledFiles;
+};
+
 // The template is predefined (eg: react, vue, vanilla)
 // The setup can overwrite anything from the template (eg: files, dependencies, environment, etc.)
 export const getSetup = (
@@ -156,10 +202,21 @@ const createSetupFromUserInput = (
 
   const convertedFiles = Object.keys(files).reduce(
     (acc: SandpackBundlerFiles, key) => {
-      if (typeof files[key] === "string") {
-        acc[key] = { code: files[key] as string };
+      const file = files[key];
+
+      if (typeof file === "string") {
+        acc[key] = { code: file };
+      } else if (typeof file.code !== "string" || file.isBinary) {
+        // Binary files are kept as base64 strings, which is what the bundler receives
+        acc[key] = {
+          ...file,
+          code:
+            typeof file.code === "string" ? file.code : encodeBase64(file.code),
+          isBinary: true,
+          mimeType: file.mimeType || getMimeType(key),
+        } as SandpackBundlerFile;
       } else {
-        acc[key] = files[key] as SandpackBundlerFile;
+        acc[key] = file as SandpackBundlerFile;
       }
 
       return acc;
@@ -0,0 +1,264 @@
+import type {
+  SandpackBundlerFile,
+  SandpackBundlerFiles,
+} from "@codesandbox/sandpack-client";
+import { createPackageJSON } from "@codesandbox/sandpack-client";
+
+import type { SandpackProviderProps } from "../contexts/sandpackContext";
+import type {
+  SandboxEnvironment,
+  SandpackFiles,
+  SandpackPredefinedTemplate,
+  SandpackShareableState,
+} from "../types";
+
+import { decodeBase64, encodeBase64 } from "./fileUtils";
+
+const HASH_PARAMETER = "sandpack=";
+// Bumped whenever the format changes, the links shared before can still be told apart
+const FORMAT_VERSION = "1";
+
+// Links longer than this get cut by some browsers, servers and chat apps
+export const SHAREABLE_URL_MAX_LENGTH = 8000;
+
+// LZW, with codes from 9 to 16 bits: the URL of some code is about half its JSON, base64 included
+const MAX_CODE = 0xffff;
+
+/**
+ * Both sides know the largest code that can come next from how many were written,
+ * so each one takes only the bits it needs
+ */
+const getCodeWidth = (index: number): number =>
+  Math.min(255 + index, MAX_CODE).toString(2).length;
+
+const compress = (input: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  if (input.length === 0) {
+    return new Uint8Array(0);
+  }
+
+  let buffer = 0;
+  let bufferLength = 0;
+  const write = (code: number, width: number) => {
+    buffer |= code << bufferLength;
+    bufferLength += width;
+
+    while (bufferLength >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferLength -= 8;
+    }
+  };
+
+  const dictionary = new Map<number, number>();
+  let nextCode = 256;
+  let index = 0;
+  let current = input[0];
+
+  for (let position = 1; position < input.length; position++) {
+    const key = current * 256 + input[position];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    write(current, getCodeWidth(index++));
+    if (nextCode <= MAX_CODE) {
+      dictionary.set(key, nextCode++);
+    }
+    current = input[position];
+  }
+
+  write(current, getCodeWidth(index));
+  if (bufferLength > 0) {
+    output.push(buffer & 0xff);
+  }
+
+  return Uint8Array.from(output);
+};
+
+const decompress = (input: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  const dictionary: number[][] = [];
+  const totalBits = input.length * 8;
+  let position = 0;
+
+  const read = (width: number): number => {
+    let code = 0;
+    for (let bit = 0; bit < width; bit++, position++) {
+      code |= ((input[position >> 3] >> (position & 7)) & 1) << bit;
+    }
+
+    return code;
+  };
+
+  let previous: number[] | null = null;
+
+  // The last byte is padded with less bits than any code
+  for (let index = 0; totalBits - position >= getCodeWidth(index); index++) {
+    const code = read(getCodeWidth(index));
+    let entry: number[] | undefined =
+      code < 256 ? [code] : dictionary[code - 256];
+
+    // The code that is being defined, eg: "aaa" once "aa" was just added
+    if (!entry && previous && code === 256 + dictionary.length) {
+      entry = [...previous, previous[0]];
+    }
+    if (!entry) {
+      throw new Error("Invalid shareable URL provided.");
+    }
+
+    if (previous && 256 + dictionary.length <= MAX_CODE) {
+      dictionary.push([...previous, entry[0]]);
+    }
+
+    output.push(...entry);
+    previous = entry;
+  }
+
+  return Uint8Array.from(output);
+};
+
+const toBase64URL = (base64: string): string =>
+  base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64URL = (base64URL: string): string =>
+  base64URL.replace(/-/g, "+").replace(/_/g, "/") +
+  "=".repeat((4 - (base64URL.length % 4)) % 4);
+
+/**
+ * Dependencies and entry of a package.json generated from them, which doesn't
+ * need to be in the URL. Any other package.json is kept as a file
+ */
+const getGeneratedPackageJSONSetup = (
+  file?: SandpackBundlerFile
+): Pick<
+  SandpackShareableState,
+  "dependencies" | "devDependencies" | "entry"
+> | null => {
+  if (!file || file.isBinary) {
+    return null;
+  }
+
+  try {
+    const { dependencies, devDependencies, main } = JSON.parse(file.code);
+
+    return createPackageJSON(dependencies, devDependencies, main) === file.code
+      ? { dependencies, devDependencies, entry: main }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * What a shareable URL holds of a sandbox, in the format of the `customSetup`
+ */
+export const getShareableState = ({
+  files,
+  template,
+  environment,
+  activePath,
+  openPaths,
+}: {
+  files: SandpackBundlerFiles;
+  template?: SandpackPredefinedTemplate;
+  environment?: SandboxEnvironment;
+  activePath: string;
+  openPaths: string[];
+}): SandpackShareableState => {
+  const packageJSONSetup = getGeneratedPackageJSONSetup(files["/package.json"]);
+
+  const shareableFiles = Object.keys(files).reduce(
+    (acc: SandpackFiles, path) => {
+      const file = files[path];
+      if (packageJSONSetup && path === "/package.json") {
+        return acc;
+      }
+
+      acc[path] = file.isBinary
+        ? { code: file.code, isBinary: true, mimeType: file.mimeType }
+        : file.code;
+
+      return acc;
+    },
+    {}
+  );
+
+  return {
+    template,
+    environment,
+    files: shareableFiles,
+    ...packageJSONSetup,
+    activePath,
+    openPaths,
+  };
+};
+
+export const encodeShareableState = (state: SandpackShareableState): string =>
+  `${FORMAT_VERSION}.${toBase64URL(
+    encodeBase64(compress(new TextEncoder().encode(JSON.stringify(state))))
+  )}`;
+
+export const decodeShareableState = (
+  encodedState: string
+): SandpackShareableState => {
+  const [version, data] = encodedState.split(".");
+  if (version !== FORMAT_VERSION || !data) {
+    throw new Error("Invalid shareable URL provided.");
+  }
+
+  const state = JSON.parse(
+    new TextDecoder().decode(decompress(decodeBase64(fromBase64URL(data))))
+  );
+  if (typeof state?.files !== "object") {
+    throw new Error("Invalid shareable URL provided.");
+  }
+
+  return state;
+};
+
+/**
+ * The URL with the sandbox in its hash, replacing any other hash
+ */
+export const createShareableURL = (
+  state: SandpackShareableState,
+  url: string
+): string =>
+  `${url.split("#")[0]}#${HASH_PARAMETER}${encodeShareableState(state)}`;
+
+/**
+ * The sandbox of a shareable URL, `null` when the URL doesn't have a valid one
+ */
+export const readShareableURL = (
+  url: string
+): SandpackShareableState | null => {
+  const hash = url.split("#")[1] ?? "";
+  if (!hash.startsWith(HASH_PARAMETER)) {
+    return null;
+  }
+
+  try {
+    return decodeShareableState(hash.slice(HASH_PARAMETER.length));
+  } catch (error) {
+    console.warn("The sandbox of the URL could not be read", error);
+    return null;
+  }
+};
+
+/**
+ * Props of a provider hydrated from a shareable URL: its setup takes the place
+ * of the `customSetup`, so it's merged with the template the same way
+ */
+export const getShareableProps = (
+  props: SandpackProviderProps,
+  { template, activePath, openPaths = [], ...setup }: SandpackShareableState
+): SandpackProviderProps => ({
+  ...props,
+  template: template ?? props.template,
+  customSetup: setup,
+  files: undefined,
+  activePath: activePath && setup.files?.[activePath] ? activePath : undefined,
+  openPaths: openPaths.filter((path) => setup.files?.[path]),
+});
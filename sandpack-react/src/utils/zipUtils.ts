@@ -0,0 +1,104 @@
+/**
+ * Minimal zip writer, files are stored without compression which keeps
+ * the archive valid for every unzip tool without shipping a deflate implementation
+ */
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+
+  return crc >>> 0;
+});
+
+const getCrc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index++) {
+    crc = CRC_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const getDosDateTime = (date: Date): { time: number; date: number } => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+const UTF8_FLAG = 0x0800;
+
+export const createZip = (
+  files: Record<string, string | Uint8Array>,
+  date = new Date()
+): Blob => {
+  const encoder = new TextEncoder();
+  const dosDate = getDosDateTime(date);
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.keys(files).forEach((path) => {
+    const name = encoder.encode(path.replace(/^\//, ""));
+    const file = files[path];
+    const content = typeof file === "string" ? encoder.encode(file) : file;
+    const crc = getCrc32(content);
+
+    const localHeader = new Uint8Array(30 + name.length);
+    const local = new DataView(localHeader.buffer);
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed to extract
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // stored, no compression
+    local.setUint16(10, dosDate.time, true);
+    local.setUint16(12, dosDate.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, content.length, true);
+    local.setUint32(22, content.length, true);
+    local.setUint16(26, name.length, true);
+    localHeader.set(name, 30);
+
+    const centralHeader = new Uint8Array(46 + name.length);
+    const central = new DataView(centralHeader.buffer);
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosDate.time, true);
+    central.setUint16(14, dosDate.date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, content.length, true);
+    central.setUint32(24, content.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralHeader.set(name, 46);
+
+    chunks.push(localHeader, content);
+    centralDirectory.push(centralHeader);
+    offset += localHeader.length + content.length;
+  });
+
+  const centralDirectorySize = centralDirectory.reduce(
+    (size, header) => size + header.length,
+    0
+  );
+
+  const endOfCentralDirectory = new Uint8Array(22);
+  const end = new DataView(endOfCentralDirectory.buffer);
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, centralDirectory.length, true);
+  end.setUint16(10, centralDirectory.length, true);
+  end.setUint32(12, centralDirectorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...centralDirectory, endOfCentralDirectory], {
+    type: "application/zip",
+  });
+};